@@ -1,5 +1,6 @@
 import * as core from "@actions/core";
 import { Config, ConfigProvider, Layer, pipe, Schema } from "effect";
+import { DiffBackend } from "./schemas.js";
 
 // Custom ConfigProvider for GitHub Actions
 // Prioritizes environment variables with core.getInput() as fallback
@@ -15,6 +16,24 @@ const ActionsConfigProvider = pipe(
         ["build", core.getInput("build")],
         ["skip-no-change", core.getInput("skip-no-change")],
         ["comment-strategy", core.getInput("comment-strategy")],
+        ["continue-on-error", core.getInput("continue-on-error")],
+        ["diff-backend", core.getInput("diff-backend")],
+        ["filters", core.getInput("filters")],
+        ["output-target", core.getInput("output-target")],
+        ["base-strategy", core.getInput("base-strategy")],
+        ["concurrency", core.getInput("concurrency")],
+        ["evaluator", core.getInput("evaluator")],
+        ["nix-args", core.getInput("nix-args")],
+        ["flake-inputs", core.getInput("flake-inputs")],
+        ["rebuild-estimate", core.getInput("rebuild-estimate")],
+        ["size-breakdown", core.getInput("size-breakdown")],
+        ["why-depends", core.getInput("why-depends")],
+        ["duplicate-versions", core.getInput("duplicate-versions")],
+        ["eval-warnings", core.getInput("eval-warnings")],
+        ["comment-format", core.getInput("comment-format")],
+        ["package-matrix", core.getInput("package-matrix")],
+        ["comment-template", core.getInput("comment-template")],
+        ["comment-template-file", core.getInput("comment-template-file")],
       ]),
     ),
   ),
@@ -23,6 +42,18 @@ const ActionsConfigProvider = pipe(
 // Schema definitions for Config validation
 const ModeSchema = Schema.Literal("full", "diff-only", "comment-only");
 const CommentStrategySchema = Schema.Literal("create", "update");
+const OutputTargetSchema = Schema.Literal("comment", "job-summary", "both", "none");
+const BaseStrategySchema = Schema.Literal("tip", "base-sha", "merge-base");
+const EvaluatorSchema = Schema.Literal("nix", "nix-eval-jobs");
+const CommentFormatSchema = Schema.Literal("text", "table");
+const ConcurrencySchema = Schema.NumberFromString.pipe(
+  Schema.int(),
+  Schema.greaterThanOrEqualTo(1),
+);
+const SizeBreakdownSchema = Schema.NumberFromString.pipe(
+  Schema.int(),
+  Schema.greaterThanOrEqualTo(0),
+);
 
 export const ActionConfig = {
   mode: Schema.Config("mode", ModeSchema),
@@ -32,6 +63,24 @@ export const ActionConfig = {
   build: Config.boolean("build"),
   skipNoChange: Config.boolean("skip-no-change"),
   commentStrategy: Schema.Config("comment-strategy", CommentStrategySchema),
+  continueOnError: Config.boolean("continue-on-error"),
+  diffBackend: Schema.Config("diff-backend", DiffBackend),
+  filters: Config.string("filters"),
+  outputTarget: Schema.Config("output-target", OutputTargetSchema),
+  baseStrategy: Schema.Config("base-strategy", BaseStrategySchema),
+  concurrency: Schema.Config("concurrency", ConcurrencySchema),
+  evaluator: Schema.Config("evaluator", EvaluatorSchema),
+  nixArgs: Config.string("nix-args"),
+  flakeInputs: Config.boolean("flake-inputs"),
+  rebuildEstimate: Config.boolean("rebuild-estimate"),
+  sizeBreakdown: Schema.Config("size-breakdown", SizeBreakdownSchema),
+  whyDepends: Config.boolean("why-depends"),
+  duplicateVersions: Config.boolean("duplicate-versions"),
+  evalWarnings: Config.boolean("eval-warnings"),
+  commentFormat: Schema.Config("comment-format", CommentFormatSchema),
+  packageMatrix: Config.boolean("package-matrix"),
+  commentTemplate: Config.string("comment-template"),
+  commentTemplateFile: Config.string("comment-template-file"),
   githubRunId: Config.option(Config.string("GITHUB_RUN_ID")),
 };
 
@@ -1,7 +1,7 @@
 import { Schema } from "effect";
 
-export class NotPullRequestContextError extends Schema.TaggedError<NotPullRequestContextError>()(
-  "NotPullRequestContextError",
+export class UnsupportedEventError extends Schema.TaggedError<UnsupportedEventError>()(
+  "UnsupportedEventError",
   { message: Schema.String },
 ) {}
 
@@ -24,6 +24,25 @@ export class AttributeParseError extends Schema.TaggedError<AttributeParseError>
   { message: Schema.String },
 ) {}
 
+export class NixTimeoutError extends Schema.TaggedError<NixTimeoutError>()("NixTimeoutError", {
+  attribute: Schema.String,
+  message: Schema.String,
+}) {}
+
+export class NixArgsParseError extends Schema.TaggedError<NixArgsParseError>()(
+  "NixArgsParseError",
+  { message: Schema.String },
+) {}
+
+export class CommentTemplateError extends Schema.TaggedError<CommentTemplateError>()(
+  "CommentTemplateError",
+  { message: Schema.String },
+) {}
+
+export class FilterParseError extends Schema.TaggedError<FilterParseError>()("FilterParseError", {
+  message: Schema.String,
+}) {}
+
 export class GitWorktreeError extends Schema.TaggedError<GitWorktreeError>()("GitWorktreeError", {
   operation: Schema.String,
   message: Schema.String,
@@ -34,6 +53,11 @@ export class NixPathInfoError extends Schema.TaggedError<NixPathInfoError>()("Ni
   message: Schema.String,
 }) {}
 
+export class NixEvalError extends Schema.TaggedError<NixEvalError>()("NixEvalError", {
+  flakeRef: Schema.String,
+  message: Schema.String,
+}) {}
+
 export class NixBuildError extends Schema.TaggedError<NixBuildError>()("NixBuildError", {
   flakeRef: Schema.String,
   message: Schema.String,
@@ -59,3 +83,8 @@ export class InvalidDirectoryError extends Schema.TaggedError<InvalidDirectoryEr
   "InvalidDirectoryError",
   { message: Schema.String },
 ) {}
+
+export class AttributeFailuresError extends Schema.TaggedError<AttributeFailuresError>()(
+  "AttributeFailuresError",
+  { message: Schema.String },
+) {}
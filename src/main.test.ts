@@ -1,12 +1,72 @@
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as nodePath from "node:path";
 import { describe, expect, test } from "vitest";
-import { Effect, Exit, Layer } from "effect";
-import { formatAggregatedComment, truncateDiff, sanitizeDisplayName } from "./services/github.js";
-import { parseCommentStrategy, parseAttributes, validateDirectory } from "./programs/index.js";
+import { ConfigProvider, Effect, Exit, FiberRef, Layer, Option, Ref } from "effect";
+import {
+  formatAggregatedComment,
+  formatAggregatedComments,
+  formatJobSummary,
+  checkIfAnyDiffTruncated,
+  allocateDiffBudgets,
+  truncateDiff,
+  sanitizeDisplayName,
+  resolveDiffTarget,
+  GitHubService,
+} from "./services/github.js";
+import {
+  parseCommentStrategy,
+  parseAttributes,
+  parseFilterRules,
+  parseNixArgs,
+  checkNixArgsForEvaluator,
+  validateDirectory,
+  loadCommentTemplate,
+} from "./programs/index.js";
 import { processDiffResults } from "./programs/full.js";
-import { GitService, sanitizeBranchName } from "./services/git.js";
-import { NixService } from "./services/nix.js";
-import { hasDixChanges, hasPackageChanges, isOnlyMinorNixpkgsUpdate } from "./services/utils.js";
+import { postComment, resolveBaseRef } from "./programs/shared.js";
+import { GitService, isCommitSha, sanitizeBranchName } from "./services/git.js";
+import {
+  NixService,
+  applyExtraArgs,
+  buildEvalJobsExpression,
+  lockedPathFlakeRef,
+  currentNixInvocation,
+  parseEvalJobsOutput,
+} from "./services/nix.js";
+import {
+  applyChangeFilters,
+  expandDisplayName,
+  quoteAttributeName,
+  parseStorePathName,
+  formatPackageList,
+  trimNixError,
+  parseDixReport,
+  formatDixReport,
+  truncateDixReport,
+} from "./services/utils.js";
 import { createArtifactName } from "./services/artifact.js";
+import { diffFlakeLocks, formatInputChanges } from "./services/flake-lock.js";
+import { parseDryRunOutput } from "./services/rebuild.js";
+import {
+  computeSizeBreakdown,
+  formatSizeBreakdown,
+  parsePathInfoSizes,
+} from "./services/closure-size.js";
+import {
+  findAddedPackagePaths,
+  formatDependencyChains,
+  parseWhyDependsOutput,
+} from "./services/why-depends.js";
+import { findDuplicateVersions, formatDuplicateVersions } from "./services/duplicates.js";
+import { diffWarnings, extractWarnings, formatEvalWarnings } from "./services/warnings.js";
+import { classifyVersionBump, formatDixTable } from "./services/dix-table.js";
+import { formatPackageMatrix, groupPackageTransitions } from "./services/matrix.js";
+import { parseTemplate, renderTemplate } from "./services/template.js";
+import { CommentTemplateError, NixEvalError, NixPathInfoError } from "./errors.js";
+import type { GitHubContext, Octokit } from "./types.js";
+import type { DiffResult } from "./schemas.js";
 
 describe("parseAttributes", () => {
   test("parses valid YAML array", async () => {
@@ -70,6 +130,42 @@ describe("parseAttributes", () => {
     }
   });
 
+  test("parses wildcard attribute with displayName template", async () => {
+    const input = `
+- displayName: host-$1
+  attribute: nixosConfigurations.*.config.system.build.toplevel
+`;
+    const result = await Effect.runPromise(parseAttributes(input));
+    expect(result).toHaveLength(1);
+    expect(result[0].attribute).toBe("nixosConfigurations.*.config.system.build.toplevel");
+  });
+
+  test("fails for wildcard attribute without displayName placeholder", async () => {
+    const input = `
+- displayName: host
+  attribute: nixosConfigurations.*.config.system.build.toplevel
+`;
+    const exit = await Effect.runPromiseExit(parseAttributes(input));
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit)) {
+      const error = exit.cause;
+      expect(error._tag).toBe("Fail");
+      if (error._tag === "Fail") {
+        expect(error.error._tag).toBe("AttributeParseError");
+        expect(error.error.message).toContain("must reference a matched segment");
+      }
+    }
+  });
+
+  test("fails for leading wildcard segment", async () => {
+    const input = `
+- displayName: $1
+  attribute: "*.default"
+`;
+    const exit = await Effect.runPromiseExit(parseAttributes(input));
+    expect(Exit.isFailure(exit)).toBe(true);
+  });
+
   test("parses singleton array (for diff-only mode with matrix)", async () => {
     const input = `
 - displayName: host1
@@ -172,6 +268,106 @@ describe("formatAggregatedComment", () => {
     expect(comment).toContain("diff2");
   });
 
+  test("renders added and removed attributes in their own sections", () => {
+    const results = [
+      {
+        displayName: "host1",
+        attributePath: "nixosConfigurations.host1...",
+        baseRef: "github:owner/repo",
+        prRef: ".",
+        diff: "diff1",
+      },
+      {
+        displayName: "newhost",
+        attributePath: "nixosConfigurations.newhost...",
+        baseRef: "github:owner/repo",
+        prRef: ".",
+        diff: "ADDED\n[A.] hello 2.12.2",
+        change: "added" as const,
+      },
+      {
+        displayName: "oldhost",
+        attributePath: "nixosConfigurations.oldhost...",
+        baseRef: "github:owner/repo",
+        prRef: ".",
+        diff: "REMOVED\n[R.] hello 2.12.2",
+        change: "removed" as const,
+      },
+    ];
+    const comment = formatAggregatedComment(results, "abc123def456");
+
+    expect(comment).toContain("### Added attributes");
+    expect(comment).toContain("### Removed attributes");
+    expect(comment.indexOf("<summary>host1</summary>")).toBeLessThan(
+      comment.indexOf("### Added attributes"),
+    );
+    expect(comment.indexOf("<summary>newhost</summary>")).toBeGreaterThan(
+      comment.indexOf("### Added attributes"),
+    );
+    expect(comment.indexOf("<summary>oldhost</summary>")).toBeGreaterThan(
+      comment.indexOf("### Removed attributes"),
+    );
+  });
+
+  test("links the diff backends used in the footer", () => {
+    const results = [
+      {
+        displayName: "host1",
+        attributePath: "nixosConfigurations.host1...",
+        baseRef: "github:owner/repo",
+        prRef: ".",
+        diff: "diff1",
+        backend: "nvd" as const,
+      },
+    ];
+    const comment = formatAggregatedComment(results, "abc123def456");
+
+    expect(comment).toContain("using [nvd](https://git.sr.ht/~khumba/nvd)");
+    expect(comment).not.toContain("[dix]");
+  });
+
+  test("lists hidden changes in a collapsed note", () => {
+    const comment = formatAggregatedComment([], "abc123def456", {
+      hidden: [{ displayName: "host1", change: "[U.] foo 1 → 2", reason: "noise" }],
+    });
+
+    expect(comment).toContain("<summary>Hidden changes (1)</summary>");
+    expect(comment).toContain("- **host1**: `[U.] foo 1 → 2` (noise)");
+  });
+
+  test("caps the hidden changes note", () => {
+    const hidden = Array.from({ length: 250 }, (_, i) => ({
+      displayName: `host${i}`,
+      change: "[U.] foo 1 → 2",
+      reason: "noise",
+    }));
+    const comment = formatAggregatedComment([], "abc123def456", { hidden });
+
+    expect(comment).toContain("<summary>Hidden changes (250)</summary>");
+    expect(comment).toContain("- **host99**:");
+    expect(comment).not.toContain("- **host100**:");
+    expect(comment).toContain("- ... 150 more");
+  });
+
+  test("renders failed attributes with their error", () => {
+    const results = [
+      {
+        displayName: "host1",
+        attributePath: "nixosConfigurations.host1...",
+        baseRef: "github:owner/repo",
+        prRef: ".",
+        diff: "",
+        status: "build-failed" as const,
+        error: "error: builder for '/nix/store/xxx-foo.drv' failed",
+      },
+    ];
+    const comment = formatAggregatedComment(results, "abc123def456");
+
+    expect(comment).toContain("### Failed attributes");
+    expect(comment).toContain("<summary>host1 (build failed)</summary>");
+    expect(comment).toContain("error: builder for '/nix/store/xxx-foo.drv' failed");
+  });
+
   test("truncates large diff", () => {
     const largeDiff = "a".repeat(70000);
     const results = [
@@ -268,6 +464,150 @@ describe("formatAggregatedComment", () => {
   });
 });
 
+describe("formatAggregatedComments", () => {
+  const makeResults = (count: number, diffLength: number) =>
+    Array.from({ length: count }, (_, i) => ({
+      displayName: `host${i + 1}`,
+      attributePath: `nixosConfigurations.host${i + 1}`,
+      baseRef: "abc123def456",
+      prRef: "789ghi012jkl",
+      diff: String(i + 1).repeat(diffLength),
+    }));
+
+  test("keeps reports that fit in one comment unchanged", () => {
+    const results = makeResults(2, 100);
+    expect(formatAggregatedComments(results, "789ghi012jkl")).toEqual([
+      formatAggregatedComment(results, "789ghi012jkl"),
+    ]);
+  });
+
+  test("packs sections into several comments instead of truncating", () => {
+    const parts = formatAggregatedComments(makeResults(4, 25000), "789ghi012jkl", {
+      inputChanges: [{ input: "nixpkgs", change: "added", after: { type: "github" } }],
+    });
+
+    expect(parts).toHaveLength(2);
+    for (const part of parts) {
+      expect(part.length).toBeLessThanOrEqual(60000);
+      expect(part).not.toContain("truncated");
+      expect(part).toContain("<!-- nix-diff-action-footer sha=789ghi012jkl -->");
+    }
+    expect(parts[0]).toContain("<!-- nix-diff-action -->");
+    expect(parts[0]).toContain("## Nix Diff (1/2)");
+    expect(parts[0]).toContain("### Flake inputs");
+    expect(parts[1]).toContain("<!-- nix-diff-action part=2 -->");
+    expect(parts[1]).not.toContain("### Flake inputs");
+    expect(parts.join("").match(/<summary>host\d<\/summary>/g)).toHaveLength(4);
+  });
+
+  test("marks the parts of a single attribute with its displayName", () => {
+    const parts = formatAggregatedComments(makeResults(1, 70000), "789ghi012jkl", {
+      hidden: [{ displayName: "host2", change: "DIFF: 0 B", reason: "minor nixpkgs update" }],
+    });
+
+    expect(parts).toHaveLength(2);
+    expect(parts[0]).toContain("<!-- nix-diff-action:host1 -->");
+    expect(parts[1]).toContain("<!-- nix-diff-action:host1 part=2 -->");
+  });
+
+  test("keeps every part within the limit with a large intro", () => {
+    const inputChanges = Array.from({ length: 800 }, (_, i) => ({
+      input: `input${i}`,
+      change: "added" as const,
+      after: { type: "github" },
+    }));
+    const parts = formatAggregatedComments(makeResults(1, 70000), "789ghi012jkl", {
+      inputChanges,
+    });
+
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(part.length).toBeLessThanOrEqual(60000);
+    }
+    expect(parts[0]).toContain("### Flake inputs");
+  });
+
+  test("links the parts once their URLs are known", () => {
+    const parts = formatAggregatedComments(makeResults(4, 25000), "789ghi012jkl", undefined, [
+      "https://github.com/owner/repo/pull/1#issuecomment-1",
+      "https://github.com/owner/repo/pull/1#issuecomment-2",
+    ]);
+
+    expect(parts[0]).toContain(
+      "> Report split across 2 comments: 1 · [2](https://github.com/owner/repo/pull/1#issuecomment-2)",
+    );
+    expect(parts[1]).toContain(
+      "> Report split across 2 comments: [1](https://github.com/owner/repo/pull/1#issuecomment-1) · 2",
+    );
+  });
+});
+
+describe("formatJobSummary", () => {
+  test("does not truncate diffs that exceed the comment limit", () => {
+    const largeDiff = "a".repeat(70000);
+    const summary = formatJobSummary(
+      [
+        {
+          displayName: "host1",
+          attributePath: "nixosConfigurations.host1",
+          baseRef: "abc123def456",
+          prRef: "789ghi012jkl",
+          diff: largeDiff,
+        },
+      ],
+      "789ghi012jkl",
+    );
+
+    expect(summary).toContain(largeDiff);
+    expect(summary).not.toContain("truncated");
+    expect(summary).not.toContain("<!-- nix-diff-action:host1 -->");
+  });
+
+  test("starts with an overview table and compare link", () => {
+    const diff = `<<< /nix/store/a.drv
+>>> /nix/store/b.drv
+
+CHANGED
+[U.] hello 2.12.1 -> 2.12.2
+
+ADDED
+[A.] foo 1.0
+
+SIZE: 10.0 MiB -> 10.1 MiB
+DIFF: 100 KiB`;
+    const summary = formatJobSummary(
+      [
+        {
+          displayName: "host1",
+          attributePath: "nixosConfigurations.host1",
+          baseRef: "abc123def456",
+          prRef: "789ghi012jkl",
+          diff,
+          report: parseDixReport(diff),
+        },
+        {
+          displayName: "host2",
+          attributePath: "nixosConfigurations.host2",
+          baseRef: "abc123def456",
+          prRef: "789ghi012jkl",
+          diff: "",
+          status: "eval-failed" as const,
+          error: "error: boom",
+        },
+      ],
+      "789ghi012jkl",
+      { repoUrl: "https://github.com/owner/repo" },
+    );
+
+    expect(summary).toContain(
+      "Changes: [abc123d...789ghi0](https://github.com/owner/repo/compare/abc123def456...789ghi012jkl)",
+    );
+    expect(summary).toContain("| host1 | changed | 1 changed, 1 added, 0 removed | 100 KiB |");
+    expect(summary).toContain("| host2 | ❌ evaluation failed | - | - |");
+    expect(summary).toContain("**Attribute**: `nixosConfigurations.host1`");
+  });
+});
+
 describe("truncateDiff", () => {
   test("returns original string when under limit", () => {
     const diff = "small diff";
@@ -300,6 +640,52 @@ describe("truncateDiff", () => {
   });
 });
 
+describe("allocateDiffBudgets", () => {
+  test("gives budget left over by small diffs to large ones", () => {
+    expect(allocateDiffBudgets([2000, 50000, 40000], 60000)).toEqual([2000, 29000, 29000]);
+    expect(allocateDiffBudgets([2000, 50000, 10000], 60000)).toEqual([2000, 48000, 10000]);
+  });
+
+  test("never goes below the minimum share", () => {
+    expect(allocateDiffBudgets([50000, 50000], 1000)).toEqual([1000, 1000]);
+  });
+});
+
+describe("truncateDixReport", () => {
+  const report = parseDixReport(`<<< /nix/store/a-system
+>>> /nix/store/b-system
+
+CHANGED
+[U*] firefox 120.0 -> 121.0
+[U.] libfoo 1.0 -> 1.1
+[U.] libbar 2.0 -> 2.1
+
+ADDED
+[A.] newdep 1.0
+
+REMOVED
+[R.] olddep 0.9
+
+SIZE: 10.0 GiB -> 10.1 GiB
+DIFF: 100 MiB`);
+
+  test("keeps paths and summary while dropping the least important entries", () => {
+    const text = truncateDixReport(report, 200);
+    expect(text).toBeDefined();
+    expect(text?.length).toBeLessThanOrEqual(200);
+    expect(text).toContain("<<< /nix/store/a-system\n>>> /nix/store/b-system");
+    expect(text).toContain("[U*] firefox");
+    expect(text).toContain("SIZE: 10.0 GiB → 10.1 GiB\nDIFF: 100 MiB");
+    expect(text).not.toContain("olddep");
+    expect(text).toContain("REMOVED\n... 1 more");
+  });
+
+  test("returns undefined when even the summary does not fit", () => {
+    expect(truncateDixReport(report, 50)).toBeUndefined();
+    expect(truncateDixReport(parseDixReport("x".repeat(5000)), 1000)).toBeUndefined();
+  });
+});
+
 describe("sanitizeBranchName", () => {
   test("keeps alphanumeric characters and hyphens", () => {
     expect(sanitizeBranchName("main")).toBe("main");
@@ -322,6 +708,285 @@ describe("sanitizeBranchName", () => {
   });
 });
 
+describe("nix-eval-jobs helpers", () => {
+  test("builds one job per attribute from the flake", () => {
+    expect(
+      buildEvalJobsExpression("path:/tmp/base", [
+        "packages.x86_64-linux.default",
+        'nixosConfigurations."my.host".config.system.build.toplevel',
+      ]),
+    ).toBe(`let flake = builtins.getFlake "path:/tmp/base"; in {
+  job0 = flake.packages.x86_64-linux.default;
+  job1 = flake.nixosConfigurations."my.host".config.system.build.toplevel;
+}`);
+  });
+
+  test("locks the store copy of a flake by its narHash", () => {
+    expect(
+      lockedPathFlakeRef({
+        path: "/nix/store/aaa-source",
+        locked: {
+          narHash: "sha256-abc+def/0=",
+          rev: "0123456789abcdef0123456789abcdef01234567",
+          revCount: 42,
+          lastModified: 1700000000,
+          dir: "sub",
+        },
+      }),
+    ).toBe(
+      "path:/nix/store/aaa-source?narHash=sha256-abc%2Bdef%2F0%3D&rev=0123456789abcdef0123456789abcdef01234567&revCount=42&lastModified=1700000000&dir=sub",
+    );
+    expect(lockedPathFlakeRef({ path: "/nix/store/aaa-source", locked: {} })).toBeUndefined();
+  });
+
+  test("parses streamed results back to attributes", () => {
+    const attributes = ["packages.x86_64-linux.a", "packages.x86_64-linux.b"];
+    const jobs = parseEvalJobsOutput(
+      [
+        "trace: evaluation warning",
+        "null",
+        "42",
+        '"job0"',
+        '{"attr":"job1","error":"attribute \'b\' missing"}',
+        '{"attr":"job0","drvPath":"/nix/store/aaa-a.drv","outputs":{"out":"/nix/store/bbb-a"}}',
+      ].join("\n"),
+      attributes,
+    );
+    expect(jobs.get("packages.x86_64-linux.a")).toEqual({
+      drvPath: "/nix/store/aaa-a.drv",
+      outputs: { out: "/nix/store/bbb-a" },
+    });
+    expect(jobs.get("packages.x86_64-linux.b")).toEqual({ error: "attribute 'b' missing" });
+  });
+});
+
+describe("isCommitSha", () => {
+  test("recognizes full commit SHAs but not branch names", () => {
+    expect(isCommitSha("0123456789abcdef0123456789abcdef01234567")).toBe(true);
+    expect(isCommitSha("main")).toBe(false);
+    expect(isCommitSha("deadbeef")).toBe(false);
+  });
+});
+
+describe("resolveDiffTarget", () => {
+  const before = "1".repeat(40);
+  const after = "2".repeat(40);
+
+  test("uses PR base and head for pull_request events", () => {
+    const target = Effect.runSync(
+      resolveDiffTarget({
+        eventName: "pull_request",
+        ref: "refs/pull/1/merge",
+        sha: "m".repeat(40),
+        payload: {
+          pull_request: {
+            number: 1,
+            base: { ref: "main", sha: before },
+            head: { ref: "feature", sha: after },
+          },
+        },
+      }),
+    );
+    expect(target).toEqual({
+      event: "pull_request",
+      number: 1,
+      base: { ref: "main", sha: before },
+      head: { ref: "feature", sha: after },
+    });
+  });
+
+  test("compares before and after for push events", () => {
+    const target = Effect.runSync(
+      resolveDiffTarget({
+        eventName: "push",
+        ref: "refs/heads/main",
+        sha: after,
+        payload: { before, after },
+      }),
+    );
+    expect(target).toEqual({
+      event: "push",
+      base: { ref: before, sha: before },
+      head: { ref: "main", sha: after },
+    });
+  });
+
+  test("uses merge group base and head for merge_group events", () => {
+    const target = Effect.runSync(
+      resolveDiffTarget({
+        eventName: "merge_group",
+        ref: "refs/heads/gh-readonly-queue/main/pr-1",
+        sha: after,
+        payload: {
+          merge_group: {
+            base_ref: "refs/heads/main",
+            base_sha: before,
+            head_ref: "refs/heads/gh-readonly-queue/main/pr-1",
+            head_sha: after,
+          },
+        },
+      }),
+    );
+    expect(target).toEqual({
+      event: "merge_group",
+      base: { ref: "main", sha: before },
+      head: { ref: "gh-readonly-queue/main/pr-1", sha: after },
+    });
+  });
+
+  test("fails for pushes that create a branch", () => {
+    const exit = Effect.runSyncExit(
+      resolveDiffTarget({
+        eventName: "push",
+        ref: "refs/heads/new",
+        sha: after,
+        payload: { before: "0".repeat(40), after },
+      }),
+    );
+    expect(Exit.isFailure(exit)).toBe(true);
+  });
+
+  test("fails for other events", () => {
+    const exit = Effect.runSyncExit(
+      resolveDiffTarget({ eventName: "schedule", ref: "refs/heads/main", sha: after, payload: {} }),
+    );
+    expect(Exit.isFailure(exit)).toBe(true);
+  });
+});
+
+describe("base strategy", () => {
+  const target = {
+    event: "pull_request" as const,
+    number: 1,
+    base: { ref: "main", sha: "1".repeat(40) },
+    head: { ref: "feature", sha: "2".repeat(40) },
+  };
+
+  const resolve = (
+    strategy: "tip" | "base-sha" | "merge-base",
+    compareCommitsWithBasehead: (params: { basehead: string }) => Promise<unknown>,
+  ) => {
+    const octokit = { rest: { repos: { compareCommitsWithBasehead } } } as unknown as Octokit;
+    const context = { repo: { owner: "owner", repo: "repo" } } as unknown as GitHubContext;
+    const defaults = Effect.runSync(GitHubService.pipe(Effect.provide(GitHubService.Default)));
+    return Effect.runPromiseExit(
+      resolveBaseRef(strategy, target).pipe(
+        Effect.provide(
+          Layer.succeed(
+            GitHubService,
+            new GitHubService({
+              ...defaults,
+              getContext: () => context,
+              createOctokit: () => octokit,
+            }),
+          ),
+        ),
+        Effect.withConfigProvider(ConfigProvider.fromMap(new Map([["github-token", "token"]]))),
+      ),
+    );
+  };
+  const unused = () => Promise.reject(new Error("unexpected API call"));
+
+  test("uses the branch for tip and the event's commit for base-sha", async () => {
+    expect(await resolve("tip", unused)).toStrictEqual(Exit.succeed("main"));
+    expect(await resolve("base-sha", unused)).toStrictEqual(Exit.succeed("1".repeat(40)));
+  });
+
+  test("asks the GitHub API for the merge-base of base and head", async () => {
+    const requested: string[] = [];
+    const exit = await resolve("merge-base", async ({ basehead }) => {
+      requested.push(basehead);
+      return { data: { merge_base_commit: { sha: "3".repeat(40) } } };
+    });
+
+    expect(exit).toStrictEqual(Exit.succeed("3".repeat(40)));
+    expect(requested).toEqual([`${"1".repeat(40)}...${"2".repeat(40)}`]);
+  });
+
+  test("fails with a GitHubApiError when the merge-base cannot be resolved", async () => {
+    const exit = await resolve("merge-base", () => Promise.reject(new Error("Not Found")));
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      expect(exit.cause.error._tag).toBe("GitHubApiError");
+    }
+  });
+});
+
+describe("base worktree", () => {
+  const git = (cwd: string, ...args: string[]) =>
+    execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+      cwd,
+      encoding: "utf8",
+    }).trim();
+
+  // A remote with two commits on main, and a shallow clone of its tip as the checkout
+  const createRepos = () => {
+    const root = fs.realpathSync(fs.mkdtempSync(nodePath.join(os.tmpdir(), "nix-diff-git-")));
+    const origin = nodePath.join(root, "origin");
+    fs.mkdirSync(origin);
+    git(origin, "init", "--quiet", "--initial-branch=main");
+    fs.writeFileSync(nodePath.join(origin, "flake.nix"), "{ }\n");
+    git(origin, "add", ".");
+    git(origin, "commit", "--quiet", "-m", "first");
+    const first = git(origin, "rev-parse", "HEAD");
+    fs.writeFileSync(nodePath.join(origin, "flake.nix"), "{ outputs = _: { }; }\n");
+    git(origin, "commit", "--quiet", "-am", "second");
+    const second = git(origin, "rev-parse", "HEAD");
+
+    const checkout = nodePath.join(root, "checkout");
+    git(root, "clone", "--quiet", "--depth=1", `file://${origin}`, checkout);
+    return { root, checkout, first, second };
+  };
+
+  const createWorktree = async (checkout: string, baseRef: string, runId: string) => {
+    const cwd = process.cwd();
+    process.chdir(checkout);
+    try {
+      return await Effect.runPromise(
+        Effect.scoped(
+          Effect.gen(function* () {
+            const service = yield* GitService;
+            const worktree = yield* service.createWorktree(baseRef, runId);
+            return {
+              ...worktree,
+              head: git(worktree.path, "rev-parse", "HEAD"),
+              exists: fs.existsSync(worktree.path),
+            };
+          }),
+        ).pipe(Effect.provide(GitService.Default)),
+      );
+    } finally {
+      process.chdir(cwd);
+    }
+  };
+
+  test("creates the worktree at the tip of a branch", async () => {
+    const { root, checkout, second } = createRepos();
+    try {
+      const worktree = await createWorktree(checkout, "main", "branch-test");
+      expect(worktree.sha).toBe(second);
+      expect(worktree.head).toBe(second);
+      // The scope removes the worktree again
+      expect(fs.existsSync(worktree.path)).toBe(false);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test("fetches a commit missing from the shallow checkout by its SHA", async () => {
+    const { root, checkout, first } = createRepos();
+    try {
+      const worktree = await createWorktree(checkout, first, "sha-test");
+      expect(worktree.exists).toBe(true);
+      expect(worktree.sha).toBe(first);
+      expect(worktree.head).toBe(first);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
 describe("validateDirectory", () => {
   const workspaceRoot = "/workspace";
 
@@ -413,20 +1078,53 @@ describe("processDiffResults", () => {
       GitService,
       new GitService({
         createWorktree: (_baseRef: string, _runId: string) =>
-          Effect.acquireRelease(Effect.succeed({ path: worktreePath }), () => Effect.void),
+          Effect.acquireRelease(
+            Effect.succeed({ path: worktreePath, sha: "abc123def456" }),
+            () => Effect.void,
+          ),
       }),
     );
 
-  const createMockNixService = (capturedFlakeRefs: string[], capturedInputsFromPaths?: string[]) =>
+  const createMockNixService = (
+    capturedFlakeRefs: string[],
+    capturedInputsFromPaths?: string[],
+    attributeNames: Record<string, readonly string[]> = {},
+    missingFlakeRefs: readonly string[] = [],
+  ) =>
     Layer.succeed(
       NixService,
       new NixService({
         prefetchFlakeInputs: () => Effect.void,
+        getAttributeNames: (flakeRef: string) =>
+          flakeRef in attributeNames
+            ? Effect.succeed(attributeNames[flakeRef])
+            : Effect.fail(new NixEvalError({ flakeRef, message: "attribute missing" })),
+        hasAttribute: (flakeRef: string, attribute: string) =>
+          Effect.succeed(!missingFlakeRefs.includes(`${flakeRef}#${attribute}`)),
+        getClosurePaths: (path: string) =>
+          Effect.succeed([path, "/nix/store/00000000000000000000000000000000-hello-2.12.2"]),
         getNixPath: (flakeRef: string) => {
           capturedFlakeRefs.push(flakeRef);
-          return Effect.succeed(`/nix/store/mock-hash`);
+          return missingFlakeRefs.includes(flakeRef)
+            ? Effect.fail(new NixPathInfoError({ flakeRef, message: "does not provide attribute" }))
+            : Effect.succeed(`/nix/store/mock-hash`);
         },
-        getDixDiff: (_basePath: string, _prPath: string, inputsFromPath: string) => {
+        evaluateJobs: (flakeRef: string, attributes: readonly string[]) =>
+          Effect.succeed(
+            new Map(
+              attributes.map((attribute) => [
+                attribute,
+                missingFlakeRefs.includes(`${flakeRef}#${attribute}`)
+                  ? { error: "attribute missing" }
+                  : { drvPath: `/nix/store/${flakeRef.length}-job.drv`, outputs: {} },
+              ]),
+            ),
+          ),
+        getClosureSizes: () => Effect.succeed(new Map()),
+        whyDepends: (path: string, dependency: string) => Effect.succeed([path, dependency]),
+        dryRunBuild: () =>
+          Effect.succeed({ build: 2, fetch: 3, downloadBytes: 1024, unpackedBytes: 4096 }),
+        getDiff: (_backend, _basePath: string, _prPath: string, inputsFromPath: string) => {
           capturedInputsFromPaths?.push(inputsFromPath);
           return Effect.succeed("mock diff output");
         },
@@ -451,7 +1149,6 @@ describe("processDiffResults", () => {
           build: false,
           directory,
           baseRef: "main",
-          baseSha: "abc123def456",
           headSha: "789ghi012jkl",
           cwd,
           runId: "test-run-id",
@@ -469,7 +1166,7 @@ describe("processDiffResults", () => {
     expect(capturedFlakeRefs).toContain("path:/tmp/dix-base-main#packages.x86_64-linux.default");
     expect(capturedFlakeRefs).toContain("/workspace/repo#packages.x86_64-linux.default");
 
-    // Security: Verify getDixDiff uses base branch worktree path (not PR branch)
+    // Security: Verify getDiff uses base branch worktree path (not PR branch)
     // This prevents malicious flake.lock in PR from injecting compromised dix
     expect(capturedInputsFromPaths).toEqual([worktreePath]);
   });
@@ -491,7 +1188,6 @@ describe("processDiffResults", () => {
           build: false,
           directory,
           baseRef: "main",
-          baseSha: "abc123def456",
           headSha: "789ghi012jkl",
           cwd,
           runId: "test-run-id",
@@ -533,7 +1229,6 @@ describe("processDiffResults", () => {
           build: false,
           directory,
           baseRef: "main",
-          baseSha: "abc123def456",
           headSha: "789ghi012jkl",
           cwd,
           runId: "test-run-id",
@@ -552,199 +1247,2178 @@ describe("processDiffResults", () => {
     expect(result[1].displayName).toBe("host2");
     expect(result[1].attributePath).toBe("nixosConfigurations.host2");
   });
-});
 
-describe("sanitizeDisplayName", () => {
-  test("removes backslash", () => {
-    expect(sanitizeDisplayName("test\\path")).toBe("testpath");
-  });
+  test("expands wildcard attributes using names from both base and PR", async () => {
+    const worktreePath = "/tmp/dix-base-main";
+    const directory = "/workspace/repo";
+    const cwd = "/workspace/repo";
+    const capturedFlakeRefs: string[] = [];
 
-  test("removes asterisks", () => {
-    expect(sanitizeDisplayName("*bold*")).toBe("bold");
-  });
+    const mockGit = createMockGitService(worktreePath);
+    const mockNix = createMockNixService(capturedFlakeRefs, undefined, {
+      "path:/tmp/dix-base-main#nixosConfigurations": ["host1", "old"],
+      "/workspace/repo#nixosConfigurations": ["host1", "my.host"],
+    });
+    const testLayer = Layer.mergeAll(mockGit, mockNix);
 
-  test("removes underscores", () => {
-    expect(sanitizeDisplayName("_italic_")).toBe("italic");
-  });
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        processDiffResults({
+          attributes: [
+            {
+              displayName: "nixos-$1",
+              attribute: "nixosConfigurations.*.config.system.build.toplevel",
+            },
+          ],
+          build: false,
+          directory,
+          baseRef: "main",
+          headSha: "789ghi012jkl",
+          cwd,
+          runId: "test-run-id",
+        }),
+      ).pipe(Effect.provide(testLayer)),
+    );
 
-  test("removes backticks", () => {
-    expect(sanitizeDisplayName("`code`")).toBe("code");
+    expect(result.map((r) => r.displayName)).toEqual(["nixos-host1", "nixos-my.host", "nixos-old"]);
+    expect(result.map((r) => r.attributePath)).toEqual([
+      "nixosConfigurations.host1.config.system.build.toplevel",
+      'nixosConfigurations."my.host".config.system.build.toplevel',
+      "nixosConfigurations.old.config.system.build.toplevel",
+    ]);
   });
 
-  test("removes brackets and parentheses", () => {
-    expect(sanitizeDisplayName("[link](url)")).toBe("linkurl");
-  });
+  test("marks attribute missing on base as added", async () => {
+    const mockGit = createMockGitService("/tmp/dix-base-main");
+    const mockNix = createMockNixService([], undefined, {}, [
+      "path:/tmp/dix-base-main#nixosConfigurations.newhost",
+    ]);
+    const testLayer = Layer.mergeAll(mockGit, mockNix);
 
-  test("removes hash", () => {
-    expect(sanitizeDisplayName("# heading")).toBe(" heading");
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        processDiffResults({
+          attributes: [{ displayName: "newhost", attribute: "nixosConfigurations.newhost" }],
+          build: true,
+          directory: "/workspace/repo",
+          baseRef: "main",
+          headSha: "789ghi012jkl",
+          cwd: "/workspace/repo",
+          runId: "test-run-id",
+        }),
+      ).pipe(Effect.provide(testLayer)),
+    );
+
+    expect(result).toHaveLength(1);
+    expect(result[0].change).toBe("added");
+    expect(result[0].diff).toContain(">>> /nix/store/mock-hash");
+    expect(result[0].diff).toContain("ADDED");
+    expect(result[0].diff).toMatch(/\[A\.\] hello\s+2\.12\.2/);
   });
 
-  test("keeps alphanumeric characters and hyphens", () => {
-    expect(sanitizeDisplayName("host1")).toBe("host1");
+  test("marks attribute missing in PR as removed", async () => {
+    const mockGit = createMockGitService("/tmp/dix-base-main");
+    const mockNix = createMockNixService([], undefined, {}, [
+      "/workspace/repo#nixosConfigurations.oldhost",
+    ]);
+    const testLayer = Layer.mergeAll(mockGit, mockNix);
+
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        processDiffResults({
+          attributes: [{ displayName: "oldhost", attribute: "nixosConfigurations.oldhost" }],
+          build: true,
+          directory: "/workspace/repo",
+          baseRef: "main",
+          headSha: "789ghi012jkl",
+          cwd: "/workspace/repo",
+          runId: "test-run-id",
+        }),
+      ).pipe(Effect.provide(testLayer)),
+    );
+
+    expect(result[0].change).toBe("removed");
+    expect(result[0].diff).toContain("<<< /nix/store/mock-hash");
+    expect(result[0].diff).toContain("REMOVED");
+  });
+
+  test("records failures per attribute with continueOnError", async () => {
+    const mockGit = createMockGitService("/tmp/dix-base-main");
+    const mockNix = Layer.succeed(
+      NixService,
+      new NixService({
+        prefetchFlakeInputs: () => Effect.void,
+        getAttributeNames: () => Effect.succeed([]),
+        hasAttribute: () => Effect.succeed(true),
+        getClosurePaths: () => Effect.succeed([]),
+        getNixPath: (flakeRef: string) =>
+          flakeRef.endsWith("#nixosConfigurations.broken")
+            ? Effect.fail(
+                new NixPathInfoError({
+                  flakeRef,
+                  message: "error:\n       error: attribute 'foo' missing",
+                }),
+              )
+            : Effect.succeed("/nix/store/mock-hash"),
+        evaluateJobs: () => Effect.succeed(new Map()),
+        getClosureSizes: () => Effect.succeed(new Map()),
+        whyDepends: (path: string, dependency: string) => Effect.succeed([path, dependency]),
+        dryRunBuild: () =>
+          Effect.succeed({ build: 2, fetch: 3, downloadBytes: 1024, unpackedBytes: 4096 }),
+        getDiff: () => Effect.succeed("mock diff output"),
+      }),
+    );
+    const testLayer = Layer.mergeAll(mockGit, mockNix);
+
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        processDiffResults({
+          attributes: [
+            { displayName: "broken", attribute: "nixosConfigurations.broken" },
+            { displayName: "host1", attribute: "nixosConfigurations.host1" },
+          ],
+          build: false,
+          directory: "/workspace/repo",
+          baseRef: "main",
+          headSha: "789ghi012jkl",
+          cwd: "/workspace/repo",
+          runId: "test-run-id",
+          continueOnError: true,
+        }),
+      ).pipe(Effect.provide(testLayer)),
+    );
+
+    expect(result).toHaveLength(2);
+    expect(result[0].status).toBe("eval-failed");
+    expect(result[0].error).toContain("attribute 'foo' missing");
+    expect(result[0].diff).toBe("");
+    expect(result[1].status).toBe("ok");
+    expect(result[1].diff).toBe("mock diff output");
+  });
+
+  test("uses per-attribute backend over the default backend", async () => {
+    const capturedBackends: string[] = [];
+    const mockGit = createMockGitService("/tmp/dix-base-main");
+    const mockNix = Layer.succeed(
+      NixService,
+      new NixService({
+        prefetchFlakeInputs: () => Effect.void,
+        getAttributeNames: () => Effect.succeed([]),
+        hasAttribute: () => Effect.succeed(true),
+        getClosurePaths: () => Effect.succeed([]),
+        getNixPath: (flakeRef: string) =>
+          Effect.succeed(flakeRef.startsWith("path:") ? "/nix/store/base" : "/nix/store/pr"),
+        evaluateJobs: () => Effect.succeed(new Map()),
+        getClosureSizes: () => Effect.succeed(new Map()),
+        whyDepends: (path: string, dependency: string) => Effect.succeed([path, dependency]),
+        dryRunBuild: () =>
+          Effect.succeed({ build: 2, fetch: 3, downloadBytes: 1024, unpackedBytes: 4096 }),
+        getDiff: (backend) => {
+          capturedBackends.push(backend);
+          return Effect.succeed(`${backend} output`);
+        },
+      }),
+    );
+    const testLayer = Layer.mergeAll(mockGit, mockNix);
+
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        processDiffResults({
+          attributes: [
+            { displayName: "host1", attribute: "nixosConfigurations.host1" },
+            { displayName: "host2", attribute: "nixosConfigurations.host2", backend: "nix-diff" },
+          ],
+          build: false,
+          directory: "/workspace/repo",
+          baseRef: "main",
+          headSha: "789ghi012jkl",
+          cwd: "/workspace/repo",
+          runId: "test-run-id",
+          backend: "nvd",
+        }),
+      ).pipe(Effect.provide(testLayer)),
+    );
+
+    expect(capturedBackends).toEqual(["nvd", "nix-diff"]);
+    expect(result.map((r) => r.backend)).toEqual(["nvd", "nix-diff"]);
+    expect(result[1].diff).toBe("nix-diff output");
+  });
+
+  test("skips non-dix backends when paths are identical", async () => {
+    const mockGit = createMockGitService("/tmp/dix-base-main");
+    const mockNix = createMockNixService([]);
+    const testLayer = Layer.mergeAll(mockGit, mockNix);
+
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        processDiffResults({
+          attributes: [{ displayName: "host1", attribute: "nixosConfigurations.host1" }],
+          build: true,
+          directory: "/workspace/repo",
+          baseRef: "main",
+          headSha: "789ghi012jkl",
+          cwd: "/workspace/repo",
+          runId: "test-run-id",
+          backend: "diff-closures",
+        }),
+      ).pipe(Effect.provide(testLayer)),
+    );
+
+    expect(result[0].diff).toBe("");
+  });
+
+  test("fails when wildcard prefix is missing on both sides", async () => {
+    const mockGit = createMockGitService("/tmp/dix-base-main");
+    const mockNix = createMockNixService([]);
+    const testLayer = Layer.mergeAll(mockGit, mockNix);
+
+    const exit = await Effect.runPromiseExit(
+      Effect.scoped(
+        processDiffResults({
+          attributes: [{ displayName: "$1", attribute: "nixosConfigurations.*" }],
+          build: false,
+          directory: "/workspace/repo",
+          baseRef: "main",
+          headSha: "789ghi012jkl",
+          cwd: "/workspace/repo",
+          runId: "test-run-id",
+        }),
+      ).pipe(Effect.provide(testLayer)),
+    );
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit)) {
+      const error = exit.cause;
+      expect(error._tag).toBe("Fail");
+      if (error._tag === "Fail") {
+        expect(error.error._tag).toBe("NixEvalError");
+      }
+    }
+  });
+  test("records a wildcard that cannot be expanded with continueOnError", async () => {
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        processDiffResults({
+          attributes: [
+            { displayName: "$1", attribute: "nixosConfigurations.*" },
+            { displayName: "homes", attribute: "homeConfigurations.*" },
+            { displayName: "default", attribute: "packages.x86_64-linux.default" },
+          ],
+          build: false,
+          directory: "/workspace/repo",
+          baseRef: "main",
+          headSha: "789ghi012jkl",
+          cwd: "/workspace/repo",
+          runId: "test-run-id",
+          continueOnError: true,
+        }),
+      ).pipe(
+        Effect.provide(
+          Layer.mergeAll(createMockGitService("/tmp/dix-base-main"), createMockNixService([])),
+        ),
+      ),
+    );
+
+    // A placeholder has no match to fill it, so that failure is named after the prefix
+    expect(result.map((r) => [r.displayName, r.status])).toEqual([
+      ["nixosConfigurations", "eval-failed"],
+      ["homes", "eval-failed"],
+      ["default", "ok"],
+    ]);
+    expect(result[0].attributePath).toBe("nixosConfigurations.*");
+  });
+  test("records every attribute of a failed nix-eval-jobs batch with continueOnError", async () => {
+    const mockNix = Layer.effect(
+      NixService,
+      Effect.map(
+        NixService,
+        (nix) =>
+          new NixService({
+            ...nix,
+            evaluateJobs: (flakeRef: string) =>
+              Effect.fail(new NixEvalError({ flakeRef, message: "error: nix-eval-jobs crashed" })),
+          }),
+      ),
+    ).pipe(Layer.provide(createMockNixService([])));
+
+    const run = (continueOnError: boolean) =>
+      Effect.runPromiseExit(
+        Effect.scoped(
+          processDiffResults({
+            attributes: [
+              { displayName: "default", attribute: "packages.x86_64-linux.default" },
+              { displayName: "new", attribute: "packages.x86_64-linux.new" },
+            ],
+            build: false,
+            directory: "/workspace/repo",
+            baseRef: "main",
+            headSha: "789ghi012jkl",
+            cwd: "/workspace/repo",
+            runId: "test-run-id",
+            evaluator: "nix-eval-jobs",
+            continueOnError,
+          }),
+        ).pipe(Effect.provide(Layer.mergeAll(createMockGitService("/tmp/dix-base-main"), mockNix))),
+      );
+
+    const recorded = await run(true);
+    expect(Exit.isSuccess(recorded)).toBe(true);
+    if (Exit.isSuccess(recorded)) {
+      expect(recorded.value.map((r) => r.status)).toEqual(["eval-failed", "eval-failed"]);
+      expect(recorded.value[0].error).toContain("nix-eval-jobs crashed");
+    }
+    expect(Exit.isFailure(await run(false))).toBe(true);
+  });
+  test("evaluates attributes on parallel workers", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const mockNix = Layer.succeed(
+      NixService,
+      new NixService({
+        prefetchFlakeInputs: () => Effect.void,
+        getAttributeNames: () => Effect.succeed([]),
+        hasAttribute: () => Effect.succeed(true),
+        getClosurePaths: (path: string) => Effect.succeed([path]),
+        getNixPath: (flakeRef: string) =>
+          Effect.sync(() => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+          }).pipe(
+            Effect.zipRight(Effect.sleep("10 millis")),
+            Effect.ensuring(Effect.sync(() => running--)),
+            Effect.as(`/nix/store/${flakeRef.length}-mock`),
+          ),
+        evaluateJobs: () => Effect.succeed(new Map()),
+        getClosureSizes: () => Effect.succeed(new Map()),
+        whyDepends: (path: string, dependency: string) => Effect.succeed([path, dependency]),
+        dryRunBuild: () =>
+          Effect.succeed({ build: 2, fetch: 3, downloadBytes: 1024, unpackedBytes: 4096 }),
+        getDiff: () => Effect.succeed("mock diff output"),
+      }),
+    );
+
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        processDiffResults({
+          attributes: ["a", "b", "c"].map((name) => ({
+            displayName: name,
+            attribute: `packages.x86_64-linux.${name}`,
+          })),
+          build: false,
+          directory: "/workspace/repo",
+          baseRef: "main",
+          headSha: "789ghi012jkl",
+          cwd: "/workspace/repo",
+          runId: "test-run-id",
+          concurrency: 2,
+        }),
+      ).pipe(Effect.provide(Layer.mergeAll(createMockGitService("/tmp/dix-base-main"), mockNix))),
+    );
+
+    // Results keep the configured order and carry per-attribute timings
+    expect(result.map((r) => r.displayName)).toEqual(["a", "b", "c"]);
+    expect(result.every((r) => typeof r.durationMs === "number")).toBe(true);
+    expect(maxRunning).toBe(2);
+  });
+  test("resolves paths from nix-eval-jobs batches", async () => {
+    const capturedFlakeRefs: string[] = [];
+    const mockNix = createMockNixService(capturedFlakeRefs, undefined, {}, [
+      "path:/tmp/dix-base-main#packages.x86_64-linux.new",
+    ]);
+
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        processDiffResults({
+          attributes: [
+            { displayName: "default", attribute: "packages.x86_64-linux.default" },
+            { displayName: "new", attribute: "packages.x86_64-linux.new" },
+          ],
+          build: false,
+          directory: "/workspace/repo",
+          baseRef: "main",
+          headSha: "789ghi012jkl",
+          cwd: "/workspace/repo",
+          runId: "test-run-id",
+          evaluator: "nix-eval-jobs",
+          analysis: { evalWarnings: true },
+        }),
+      ).pipe(Effect.provide(Layer.mergeAll(createMockGitService("/tmp/dix-base-main"), mockNix))),
+    );
+
+    // No per-attribute path-info calls; the missing base attribute is reported as added
+    expect(capturedFlakeRefs).toEqual([]);
+    expect(result.map((r) => r.change)).toEqual(["changed", "added"]);
+    expect(result[1].diff).toContain(">>> /nix/store/15-job.drv");
+    // Batch evaluation collects no warnings, which is not the same as having none
+    expect(result.every((r) => r.evalWarnings === undefined)).toBe(true);
+  });
+  test("diffs evaluation warnings of base and PR", async () => {
+    const mockNix = Layer.succeed(
+      NixService,
+      new NixService({
+        prefetchFlakeInputs: () => Effect.void,
+        getAttributeNames: () => Effect.succeed([]),
+        hasAttribute: () => Effect.succeed(true),
+        getClosurePaths: (path: string) => Effect.succeed([path]),
+        getNixPath: (flakeRef: string) =>
+          FiberRef.get(currentNixInvocation).pipe(
+            Effect.tap(({ warnings }) =>
+              warnings === undefined
+                ? Effect.void
+                : Ref.update(warnings, (collected) => [
+                    ...collected,
+                    "evaluation warning: shared",
+                    flakeRef.startsWith("path:") ? "trace: removed" : "warning: renamed option",
+                  ]),
+            ),
+            Effect.map(({ extraArgs }) =>
+              extraArgs?.includes("eval-cache") ? "/nix/store/mock-hash" : "/nix/store/cached",
+            ),
+          ),
+        evaluateJobs: () => Effect.succeed(new Map()),
+        getClosureSizes: () => Effect.succeed(new Map()),
+        whyDepends: (path: string, dependency: string) => Effect.succeed([path, dependency]),
+        dryRunBuild: () =>
+          Effect.succeed({ build: 0, fetch: 0, downloadBytes: 0, unpackedBytes: 0 }),
+        getDiff: (_backend, basePath: string) => Effect.succeed(basePath),
+      }),
+    );
+
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        processDiffResults({
+          attributes: [{ displayName: "test", attribute: "packages.x86_64-linux.default" }],
+          build: false,
+          directory: "/workspace/repo",
+          baseRef: "main",
+          headSha: "789ghi012jkl",
+          cwd: "/workspace/repo",
+          runId: "test-run-id",
+          analysis: { evalWarnings: true },
+        }),
+      ).pipe(Effect.provide(Layer.mergeAll(createMockGitService("/tmp/dix-base-main"), mockNix))),
+    );
+
+    // Evaluation bypasses the eval cache so warnings are printed every time
+    expect(result[0].diff).toBe("/nix/store/mock-hash");
+    expect(result[0].evalWarnings).toEqual({
+      introduced: ["warning: renamed option"],
+      resolved: ["trace: removed"],
+    });
+  });
+  test("applies global and per-attribute nix-args", async () => {
+    const capturedArgs: Record<string, readonly string[] | undefined> = {};
+    const mockNix = Layer.succeed(
+      NixService,
+      new NixService({
+        prefetchFlakeInputs: (flakeRef: string) =>
+          FiberRef.get(currentNixInvocation).pipe(
+            Effect.map((settings) => {
+              capturedArgs[`prefetch ${flakeRef}`] = settings.extraArgs;
+            }),
+          ),
+        getAttributeNames: () => Effect.succeed([]),
+        hasAttribute: () => Effect.succeed(true),
+        getClosurePaths: (path: string) => Effect.succeed([path]),
+        getNixPath: (flakeRef: string) =>
+          FiberRef.get(currentNixInvocation).pipe(
+            Effect.map((settings) => {
+              capturedArgs[flakeRef] = settings.extraArgs;
+              return "/nix/store/mock-hash";
+            }),
+          ),
+        evaluateJobs: () => Effect.succeed(new Map()),
+        getClosureSizes: () => Effect.succeed(new Map()),
+        whyDepends: (path: string, dependency: string) => Effect.succeed([path, dependency]),
+        dryRunBuild: () =>
+          Effect.succeed({ build: 2, fetch: 3, downloadBytes: 1024, unpackedBytes: 4096 }),
+        getDiff: () => Effect.succeed(""),
+      }),
+    );
+
+    await Effect.runPromise(
+      Effect.scoped(
+        processDiffResults({
+          attributes: [
+            { displayName: "a", attribute: "packages.x86_64-linux.a" },
+            {
+              displayName: "b",
+              attribute: "packages.aarch64-linux.b",
+              nixArgs: ["--system", "aarch64-linux"],
+            },
+          ],
+          build: false,
+          directory: "/workspace/repo",
+          baseRef: "main",
+          headSha: "789ghi012jkl",
+          cwd: "/workspace/repo",
+          runId: "test-run-id",
+          nixArgs: ["--impure"],
+        }),
+      ).pipe(Effect.provide(Layer.mergeAll(createMockGitService("/tmp/dix-base-main"), mockNix))),
+    );
+
+    expect(capturedArgs["prefetch /workspace/repo"]).toEqual(["--impure"]);
+    expect(capturedArgs["/workspace/repo#packages.x86_64-linux.a"]).toEqual(["--impure"]);
+    expect(capturedArgs["/workspace/repo#packages.aarch64-linux.b"]).toEqual([
+      "--impure",
+      "--system",
+      "aarch64-linux",
+    ]);
+  });
+  test("groups attributes by flake directory and applies per-attribute build", async () => {
+    const prefetched: string[] = [];
+    const evaluated: string[] = [];
+    const mockNix = Layer.succeed(
+      NixService,
+      new NixService({
+        prefetchFlakeInputs: (flakeRef: string) => Effect.sync(() => prefetched.push(flakeRef)),
+        getAttributeNames: () => Effect.succeed([]),
+        hasAttribute: () => Effect.succeed(true),
+        getClosurePaths: (path: string) => Effect.succeed([path]),
+        getNixPath: (flakeRef: string, build: boolean) =>
+          Effect.sync(() => evaluated.push(`${flakeRef} build=${build}`)).pipe(
+            Effect.as("/nix/store/mock-hash"),
+          ),
+        evaluateJobs: () => Effect.succeed(new Map()),
+        getClosureSizes: () => Effect.succeed(new Map()),
+        whyDepends: (path: string, dependency: string) => Effect.succeed([path, dependency]),
+        dryRunBuild: () =>
+          Effect.succeed({ build: 2, fetch: 3, downloadBytes: 1024, unpackedBytes: 4096 }),
+        getDiff: () => Effect.succeed(""),
+      }),
+    );
+
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        processDiffResults({
+          attributes: [
+            { displayName: "root", attribute: "packages.x86_64-linux.a" },
+            {
+              displayName: "sub",
+              attribute: "packages.x86_64-linux.b",
+              directory: "/workspace/repo/sub",
+              build: true,
+            },
+            { displayName: "root2", attribute: "packages.x86_64-linux.c" },
+          ],
+          build: false,
+          directory: "/workspace/repo",
+          baseRef: "main",
+          headSha: "789ghi012jkl",
+          cwd: "/workspace/repo",
+          runId: "test-run-id",
+        }),
+      ).pipe(Effect.provide(Layer.mergeAll(createMockGitService("/tmp/dix-base-main"), mockNix))),
+    );
+
+    expect(result.map((r) => r.displayName)).toEqual(["root", "sub", "root2"]);
+    // Each flake is prefetched once, and both share the base worktree
+    expect(prefetched).toEqual([
+      "path:/tmp/dix-base-main",
+      "/workspace/repo",
+      "path:/tmp/dix-base-main?dir=sub",
+      "/workspace/repo/sub",
+    ]);
+    expect(evaluated).toContain(
+      "path:/tmp/dix-base-main?dir=sub#packages.x86_64-linux.b build=true",
+    );
+    expect(evaluated).toContain("/workspace/repo#packages.x86_64-linux.a build=false");
+  });
+
+  test("fails attributes that exceed their timeout", async () => {
+    const mockNix = Layer.succeed(
+      NixService,
+      new NixService({
+        prefetchFlakeInputs: () => Effect.void,
+        getAttributeNames: () => Effect.succeed([]),
+        hasAttribute: () => Effect.succeed(true),
+        getClosurePaths: (path: string) => Effect.succeed([path]),
+        getNixPath: (flakeRef: string) =>
+          flakeRef.endsWith("#packages.x86_64-linux.slow")
+            ? Effect.never
+            : Effect.succeed("/nix/store/mock-hash"),
+        evaluateJobs: () => Effect.succeed(new Map()),
+        getClosureSizes: () => Effect.succeed(new Map()),
+        whyDepends: (path: string, dependency: string) => Effect.succeed([path, dependency]),
+        dryRunBuild: () =>
+          Effect.succeed({ build: 2, fetch: 3, downloadBytes: 1024, unpackedBytes: 4096 }),
+        getDiff: () => Effect.succeed(""),
+      }),
+    );
+
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        processDiffResults({
+          attributes: [
+            { displayName: "slow", attribute: "packages.x86_64-linux.slow", timeout: 0.01 },
+            { displayName: "fast", attribute: "packages.x86_64-linux.fast", timeout: 60 },
+          ],
+          build: false,
+          directory: "/workspace/repo",
+          baseRef: "main",
+          headSha: "789ghi012jkl",
+          cwd: "/workspace/repo",
+          runId: "test-run-id",
+          continueOnError: true,
+        }),
+      ).pipe(Effect.provide(Layer.mergeAll(createMockGitService("/tmp/dix-base-main"), mockNix))),
+    );
+
+    expect(result.map((r) => r.status)).toEqual(["timed-out", "ok"]);
+    expect(result[0].error).toBe("timed out after 0.01s");
+  });
+  test("estimates rebuilds of the PR output in drv mode", async () => {
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        processDiffResults({
+          attributes: [{ displayName: "test", attribute: "packages.x86_64-linux.default" }],
+          build: false,
+          directory: "/workspace/repo",
+          baseRef: "main",
+          headSha: "789ghi012jkl",
+          cwd: "/workspace/repo",
+          runId: "test-run-id",
+          analysis: { rebuildEstimate: true },
+        }),
+      ).pipe(
+        Effect.provide(
+          Layer.mergeAll(createMockGitService("/tmp/dix-base-main"), createMockNixService([])),
+        ),
+      ),
+    );
+
+    expect(result[0].rebuild).toEqual({
+      build: 2,
+      fetch: 3,
+      downloadBytes: 1024,
+      unpackedBytes: 4096,
+    });
+  });
+
+  test("adds a closure size breakdown in build mode only", async () => {
+    const run = (build: boolean) =>
+      Effect.runPromise(
+        Effect.scoped(
+          processDiffResults({
+            attributes: [{ displayName: "test", attribute: "packages.x86_64-linux.default" }],
+            build,
+            directory: "/workspace/repo",
+            baseRef: "main",
+            headSha: "789ghi012jkl",
+            cwd: "/workspace/repo",
+            runId: "test-run-id",
+            analysis: { sizeBreakdown: 5 },
+          }),
+        ).pipe(
+          Effect.provide(
+            Layer.mergeAll(createMockGitService("/tmp/dix-base-main"), createMockNixService([])),
+          ),
+        ),
+      );
+
+    expect((await run(true))[0].sizeBreakdown).toEqual({
+      grew: [],
+      shrank: [],
+      appeared: [],
+      disappeared: [],
+    });
+    expect((await run(false))[0].sizeBreakdown).toBeUndefined();
+  });
+
+  test("explains the packages dix reports as added in build mode", async () => {
+    const storeHash = (c: string) => c.repeat(32);
+    const run = (added: readonly string[]) => {
+      const mockNix = Layer.succeed(
+        NixService,
+        new NixService({
+          prefetchFlakeInputs: () => Effect.void,
+          getAttributeNames: () => Effect.succeed([]),
+          hasAttribute: () => Effect.succeed(true),
+          // The PR closure also has a renamed wrapper that dix does not list as added
+          getClosurePaths: (path: string) =>
+            Effect.succeed([
+              path,
+              `/nix/store/${storeHash("w")}-wrapper-1.0`,
+              ...added.map((name) => `/nix/store/${storeHash("p")}-${name}-1.0`),
+            ]),
+          getClosureSizes: () => Effect.succeed(new Map()),
+          whyDepends: (path: string, dependency: string) => Effect.succeed([path, dependency]),
+          getNixPath: (flakeRef: string) =>
+            Effect.succeed(
+              flakeRef.startsWith("path:/tmp")
+                ? `/nix/store/${storeHash("b")}-base`
+                : `/nix/store/${storeHash("c")}-pr`,
+            ),
+          evaluateJobs: () => Effect.succeed(new Map()),
+          dryRunBuild: () =>
+            Effect.succeed({ build: 0, fetch: 0, downloadBytes: 0, unpackedBytes: 0 }),
+          getDiff: () =>
+            Effect.succeed(`ADDED\n${added.map((name) => `[A.] ${name} 1.0`).join("\n")}`),
+        }),
+      );
+
+      return Effect.runPromise(
+        Effect.scoped(
+          processDiffResults({
+            attributes: [{ displayName: "test", attribute: "packages.x86_64-linux.default" }],
+            build: true,
+            directory: "/workspace/repo",
+            baseRef: "main",
+            headSha: "789ghi012jkl",
+            cwd: "/workspace/repo",
+            runId: "test-run-id",
+            analysis: { whyDepends: true },
+          }),
+        ).pipe(Effect.provide(Layer.mergeAll(createMockGitService("/tmp/dix-base-main"), mockNix))),
+      );
+    };
+
+    const [explained] = await run(["python3"]);
+    expect(explained.whyDepends).toEqual([
+      {
+        name: "python3",
+        chain: [`/nix/store/${storeHash("c")}-pr`, `/nix/store/${storeHash("p")}-python3-1.0`],
+      },
+    ]);
+    expect(explained.whyDependsOmitted).toBeUndefined();
+
+    const [capped] = await run(Array.from({ length: 23 }, (_, i) => `pkg${i}`));
+    expect(capped.whyDepends).toHaveLength(20);
+    expect(capped.whyDependsOmitted).toBe(3);
+  });
+});
+
+describe("sanitizeDisplayName", () => {
+  test("removes backslash", () => {
+    expect(sanitizeDisplayName("test\\path")).toBe("testpath");
+  });
+
+  test("removes asterisks", () => {
+    expect(sanitizeDisplayName("*bold*")).toBe("bold");
+  });
+
+  test("removes underscores", () => {
+    expect(sanitizeDisplayName("_italic_")).toBe("italic");
+  });
+
+  test("removes backticks", () => {
+    expect(sanitizeDisplayName("`code`")).toBe("code");
+  });
+
+  test("removes brackets and parentheses", () => {
+    expect(sanitizeDisplayName("[link](url)")).toBe("linkurl");
+  });
+
+  test("removes hash", () => {
+    expect(sanitizeDisplayName("# heading")).toBe(" heading");
+  });
+
+  test("keeps alphanumeric characters and hyphens", () => {
+    expect(sanitizeDisplayName("host1")).toBe("host1");
     expect(sanitizeDisplayName("myapp-x86_64")).toBe("myapp-x8664");
   });
 
-  test("keeps dots", () => {
-    expect(sanitizeDisplayName("host.example.com")).toBe("host.example.com");
+  test("keeps dots", () => {
+    expect(sanitizeDisplayName("host.example.com")).toBe("host.example.com");
+  });
+
+  test("preserves Japanese characters", () => {
+    expect(sanitizeDisplayName("ホスト1")).toBe("ホスト1");
+    expect(sanitizeDisplayName("サーバー.example")).toBe("サーバー.example");
+  });
+
+  test("removes multiple special characters", () => {
+    expect(sanitizeDisplayName("*_`test`_*")).toBe("test");
+  });
+});
+
+describe("createArtifactName", () => {
+  test("creates valid artifact name from simple displayName", () => {
+    const result = createArtifactName("myhost");
+    expect(result).toMatch(/^diff-result-myhost-[a-f0-9]{6}$/);
+  });
+
+  test("sanitizes special characters in displayName", () => {
+    const result = createArtifactName("my/host:name");
+    expect(result).toMatch(/^diff-result-my-host-name-[a-f0-9]{6}$/);
+  });
+
+  test("handles displayName with dots", () => {
+    const result = createArtifactName("host.example.com");
+    expect(result).toMatch(/^diff-result-host-example-com-[a-f0-9]{6}$/);
+  });
+
+  test("generates consistent hash for same input", () => {
+    const result1 = createArtifactName("testhost");
+    const result2 = createArtifactName("testhost");
+    expect(result1).toBe(result2);
+  });
+
+  test("generates different hash for different input", () => {
+    const result1 = createArtifactName("host1");
+    const result2 = createArtifactName("host2");
+    expect(result1).not.toBe(result2);
+  });
+
+  test("preserves hyphens and underscores", () => {
+    const result = createArtifactName("my-host_name");
+    expect(result).toMatch(/^diff-result-my-host_name-[a-f0-9]{6}$/);
+  });
+});
+
+describe("applyChangeFilters", () => {
+  const minorNixpkgsRule = {
+    package: "^(nixos-system-.+|darwin-system)$",
+    version: "^(\\d+\\.\\d+)\\.",
+    reason: "minor nixpkgs update",
+  };
+
+  const makeResult = (diff: string, displayName = "eule") => ({
+    displayName,
+    attributePath: `nixosConfigurations.${displayName}.config.system.build.toplevel`,
+    baseRef: "abc",
+    prRef: "def",
+    diff,
+  });
+
+  test("hides a result that is only a minor nixpkgs update", () => {
+    const diff = `<<< /nix/store/old-nixos-system-eule-26.05.20251225.3e2499d.drv
+>>> /nix/store/new-nixos-system-eule-26.05.20251228.c0b0e0f.drv
+
+CHANGED
+[U.] nixos-system-eule 26.05.20251225.3e2499d.drv -> 26.05.20251228.c0b0e0f.drv
+
+SIZE: 10.0 MiB -> 10.0 MiB
+DIFF: -248 bytes`;
+    const { visible, hidden } = applyChangeFilters([makeResult(diff)], [minorNixpkgsRule]);
+    expect(visible).toHaveLength(0);
+    expect(hidden).toEqual([
+      {
+        displayName: "eule",
+        change: "[U.] nixos-system-eule 26.05.20251225.3e2499d.drv → 26.05.20251228.c0b0e0f.drv",
+        reason: "minor nixpkgs update",
+      },
+    ]);
+  });
+
+  test("keeps release upgrades", () => {
+    const diff = `<<< /nix/store/old-nixos-system-eule.drv
+>>> /nix/store/new-nixos-system-eule.drv
+
+CHANGED
+[U.] nixos-system-eule 25.11.20251225.3e2499d.drv -> 26.05.20251228.c0b0e0f.drv`;
+    const { visible, hidden } = applyChangeFilters([makeResult(diff)], [minorNixpkgsRule]);
+    expect(visible).toHaveLength(1);
+    expect(hidden).toHaveLength(0);
+  });
+
+  test("removes matching entries and re-renders the remaining diff", () => {
+    const diff = `<<< /nix/store/old-nixos-system-eule.drv
+>>> /nix/store/new-nixos-system-eule.drv
+
+CHANGED
+[U.] hello 2.12.1 -> 2.12.2
+[U.] nixos-system-eule 26.05.20251225.3e2499d.drv -> 26.05.20251228.c0b0e0f.drv
+
+ADDED
+[A.] unit-foo.service <none>
+
+SIZE: 10.0 MiB -> 10.0 MiB
+DIFF: -248 bytes`;
+    const { visible, hidden } = applyChangeFilters(
+      [makeResult(diff)],
+      [minorNixpkgsRule, { package: "^unit-" }],
+    );
+    expect(visible).toHaveLength(1);
+    expect(visible[0].diff).toContain("[U.] hello");
+    expect(visible[0].diff).not.toContain("nixos-system-eule 26.05");
+    expect(visible[0].diff).not.toContain("unit-foo");
+    expect(visible[0].diff).toContain("DIFF: -248 bytes");
+    expect(hidden.map((h) => h.reason)).toEqual(["minor nixpkgs update", "package /^unit-/"]);
+  });
+
+  test("hides whole attributes with attribute-only rules", () => {
+    const diff = `<<< /nix/store/a.drv
+>>> /nix/store/b.drv
+
+CHANGED
+[U.] hello 2.12.1 -> 2.12.2`;
+    const { visible, hidden } = applyChangeFilters(
+      [makeResult(diff, "ci-runner"), makeResult(diff, "host1")],
+      [{ attribute: "^ci-", reason: "noisy" }],
+    );
+    expect(visible.map((r) => r.displayName)).toEqual(["host1"]);
+    expect(hidden).toEqual([{ displayName: "ci-runner", change: "all changes", reason: "noisy" }]);
+  });
+
+  test("scopes entry rules to matching attributes", () => {
+    const diff = `<<< /nix/store/a.drv
+>>> /nix/store/b.drv
+
+CHANGED
+[U.] hello 2.12.1 -> 2.12.2
+[U.] firefox 140 -> 141`;
+    const { visible } = applyChangeFilters(
+      [makeResult(diff, "desktop"), makeResult(diff, "server")],
+      [{ package: "^firefox$", attribute: "^server$" }],
+    );
+    expect(visible[0].diff).toContain("firefox");
+    expect(visible[1].diff).not.toContain("firefox");
+  });
+
+  test("drops identical paths without listing them", () => {
+    const diff = `<<< /nix/store/c46hfz9v6wx96dbchx8szp3xf6di3hb7-nix-shell.drv
+>>> /nix/store/c46hfz9v6wx96dbchx8szp3xf6di3hb7-nix-shell.drv
+
+SIZE: 14.6 MiB -> 14.6 MiB
+DIFF: 0 bytes`;
+    const { visible, hidden } = applyChangeFilters([makeResult(diff)], []);
+    expect(visible).toHaveLength(0);
+    expect(hidden).toHaveLength(0);
+  });
+
+  test("lists changed closures without package changes as hidden", () => {
+    const diff = `<<< /nix/store/qhhdx5khfpa07zc1lwfxcbrhn4r2g9xm-darwin-system-26.05.c2b3620.drv
+>>> /nix/store/b3g2v8jf13307zkcmip1w6wdxwhhijrp-darwin-system-26.05.c2b3620.drv
+
+SIZE: 260 MiB -> 260 MiB
+DIFF: 32 bytes`;
+    const { visible, hidden } = applyChangeFilters([makeResult(diff)], []);
+    expect(visible).toHaveLength(0);
+    expect(hidden).toEqual([
+      { displayName: "eule", change: "DIFF: 32 bytes", reason: "no package changes" },
+    ]);
+  });
+
+  test("always keeps failed and added results", () => {
+    const { visible } = applyChangeFilters(
+      [
+        { ...makeResult("", "broken"), status: "eval-failed" as const },
+        { ...makeResult(">>> /nix/store/x\n\nADDED\n[A.] a 1", "new"), change: "added" as const },
+      ],
+      [{ attribute: ".*" }],
+    );
+    expect(visible).toHaveLength(2);
+  });
+});
+
+describe("parseFilterRules", () => {
+  test("returns no rules for empty input", async () => {
+    const result = await Effect.runPromise(parseFilterRules(""));
+    expect(result).toEqual([]);
   });
 
-  test("preserves Japanese characters", () => {
-    expect(sanitizeDisplayName("ホスト1")).toBe("ホスト1");
-    expect(sanitizeDisplayName("サーバー.example")).toBe("サーバー.example");
+  test("parses rules", async () => {
+    const input = `
+- package: "^(nixos-system-.+|darwin-system)$"
+  version: '^(\\d+\\.\\d+)\\.'
+  reason: minor nixpkgs update
+- attribute: "^ci-"
+`;
+    const result = await Effect.runPromise(parseFilterRules(input));
+    expect(result).toHaveLength(2);
+    expect(result[0].version).toBe("^(\\d+\\.\\d+)\\.");
+    expect(result[1].attribute).toBe("^ci-");
   });
 
-  test("removes multiple special characters", () => {
-    expect(sanitizeDisplayName("*_`test`_*")).toBe("test");
+  test("fails for invalid regex", async () => {
+    const exit = await Effect.runPromiseExit(parseFilterRules(`- package: "("`));
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit)) {
+      const error = exit.cause;
+      expect(error._tag).toBe("Fail");
+      if (error._tag === "Fail") {
+        expect(error.error._tag).toBe("FilterParseError");
+        expect(error.error.message).toContain("Invalid regular expression");
+      }
+    }
+  });
+
+  test("fails for rule without criteria", async () => {
+    const exit = await Effect.runPromiseExit(parseFilterRules(`- reason: nothing`));
+    expect(Exit.isFailure(exit)).toBe(true);
   });
 });
 
-describe("createArtifactName", () => {
-  test("creates valid artifact name from simple displayName", () => {
-    const result = createArtifactName("myhost");
-    expect(result).toMatch(/^diff-result-myhost-[a-f0-9]{6}$/);
+describe("parseNixArgs", () => {
+  test("splits arguments and keeps quoted values together", async () => {
+    const args = await Effect.runPromise(
+      parseNixArgs(
+        `--option extra-substituters "https://a.example https://b.example"\n--override-input nixpkgs github:NixOS/nixpkgs/nixos-unstable --impure`,
+      ),
+    );
+    expect(args).toEqual([
+      "--option",
+      "extra-substituters",
+      "https://a.example https://b.example",
+      "--override-input",
+      "nixpkgs",
+      "github:NixOS/nixpkgs/nixos-unstable",
+      "--impure",
+    ]);
+  });
+
+  test("accepts allowed settings", async () => {
+    const args = await Effect.runPromise(
+      parseNixArgs("--option max-jobs 4 --option access-tokens github.com=token"),
+    );
+    expect(args).toHaveLength(6);
   });
 
-  test("sanitizes special characters in displayName", () => {
-    const result = createArtifactName("my/host:name");
-    expect(result).toMatch(/^diff-result-my-host-name-[a-f0-9]{6}$/);
+  test("returns no arguments for empty input", async () => {
+    expect(await Effect.runPromise(parseNixArgs(""))).toEqual([]);
   });
 
-  test("handles displayName with dots", () => {
-    const result = createArtifactName("host.example.com");
-    expect(result).toMatch(/^diff-result-host-example-com-[a-f0-9]{6}$/);
+  test.each([
+    ["unsupported flags", "--expr 'import ./evil.nix'"],
+    ["missing values", "--system"],
+    ["options that could swap the diff tool", "--option require-sigs false"],
+    ["hooks", "--option post-build-hook /tmp/hook"],
+    ["deprecated aliases of signing settings", "--option binary-cache-public-keys key:abc"],
+    ["unlisted options", "--option binary-caches https://cache.example.org"],
+    ["unterminated quotes", `--store "local`],
+  ])("rejects %s", async (_, input) => {
+    const exit = await Effect.runPromiseExit(parseNixArgs(input));
+    expect(Exit.isFailure(exit)).toBe(true);
   });
+});
 
-  test("generates consistent hash for same input", () => {
-    const result1 = createArtifactName("testhost");
-    const result2 = createArtifactName("testhost");
-    expect(result1).toBe(result2);
+describe("checkNixArgsForEvaluator", () => {
+  const attributes = [{ displayName: "a", attribute: "packages.x86_64-linux.a" }];
+
+  test("passes settings, store and system to nix-eval-jobs", async () => {
+    const exit = await Effect.runPromiseExit(
+      checkNixArgsForEvaluator(
+        "nix-eval-jobs",
+        ["--option", "max-jobs", "4", "--store", "/tmp/store", "--system", "aarch64-linux"],
+        attributes,
+      ),
+    );
+    expect(Exit.isSuccess(exit)).toBe(true);
   });
 
-  test("generates different hash for different input", () => {
-    const result1 = createArtifactName("host1");
-    const result2 = createArtifactName("host2");
-    expect(result1).not.toBe(result2);
+  test.each([
+    ["input overrides", ["--override-input", "nixpkgs", "github:NixOS/nixpkgs"], attributes],
+    ["per-attribute nixArgs", [], [{ ...attributes[0], nixArgs: ["--system", "aarch64-linux"] }]],
+  ])("rejects %s with nix-eval-jobs", async (_, nixArgs, configs) => {
+    const exit = await Effect.runPromiseExit(
+      checkNixArgsForEvaluator("nix-eval-jobs", nixArgs, configs),
+    );
+    expect(Exit.isFailure(exit)).toBe(true);
+    expect(
+      Exit.isSuccess(
+        await Effect.runPromiseExit(checkNixArgsForEvaluator("nix", nixArgs, configs)),
+      ),
+    ).toBe(true);
   });
+});
 
-  test("preserves hyphens and underscores", () => {
-    const result = createArtifactName("my-host_name");
-    expect(result).toMatch(/^diff-result-my-host_name-[a-f0-9]{6}$/);
+describe("nix processes", () => {
+  test("terminates nix when the invocation is interrupted", async () => {
+    const bin = fs.mkdtempSync(nodePath.join(os.tmpdir(), "nix-diff-bin-"));
+    const pidFile = nodePath.join(bin, "pid");
+    fs.writeFileSync(
+      nodePath.join(bin, "nix"),
+      `#!/bin/sh\necho $$ > "${pidFile}"\nexec sleep 30\n`,
+      { mode: 0o755 },
+    );
+    const path = process.env.PATH;
+    process.env.PATH = `${bin}:${path}`;
+    try {
+      const result = await Effect.runPromise(
+        Effect.gen(function* () {
+          const nix = yield* NixService;
+          return yield* nix
+            .getClosurePaths("/nix/store/a-host1")
+            .pipe(Effect.timeout("500 millis"), Effect.option);
+        }).pipe(Effect.provide(NixService.Default)),
+      );
+
+      expect(result._tag).toBe("None");
+      const pid = Number(fs.readFileSync(pidFile, "utf8"));
+      expect(() => process.kill(pid, 0)).toThrow();
+    } finally {
+      process.env.PATH = path;
+      fs.rmSync(bin, { recursive: true, force: true });
+    }
   });
 });
 
-describe("hasDixChanges", () => {
-  test("returns false for undefined", () => {
-    expect(hasDixChanges(undefined)).toBe(false);
+describe("nix-eval-jobs invocation", () => {
+  test("evaluates the locked flake in pure mode", async () => {
+    const bin = fs.mkdtempSync(nodePath.join(os.tmpdir(), "nix-diff-bin-"));
+    const argsFile = nodePath.join(bin, "args");
+    fs.writeFileSync(
+      nodePath.join(bin, "nix"),
+      `#!/bin/sh
+echo "$*" >> "${argsFile}"
+case "$*" in
+  "flake metadata"*) echo '{"path":"/nix/store/aaa-source","locked":{"narHash":"sha256-abc"}}' ;;
+  *) echo '{"attr":"job0","drvPath":"/nix/store/bbb-a.drv","outputs":{}}' ;;
+esac
+`,
+      { mode: 0o755 },
+    );
+    const path = process.env.PATH;
+    process.env.PATH = `${bin}:${path}`;
+    try {
+      const jobs = await Effect.runPromise(
+        Effect.gen(function* () {
+          const nix = yield* NixService;
+          return yield* nix.evaluateJobs(
+            "/workspace/repo",
+            ["packages.x86_64-linux.a"],
+            "/tmp/dix-base-main",
+            2,
+          );
+        }).pipe(
+          Effect.locally(currentNixInvocation, {
+            extraArgs: ["--store", "/tmp/store", "--system", "aarch64-linux"],
+          }),
+          Effect.provide(NixService.Default),
+        ),
+      );
+
+      expect(jobs.get("packages.x86_64-linux.a")).toEqual({
+        drvPath: "/nix/store/bbb-a.drv",
+        outputs: {},
+      });
+      const [metadata, evaluation] = fs.readFileSync(argsFile, "utf8").trim().split("\n");
+      expect(metadata).toBe(
+        "flake metadata --json /workspace/repo --store /tmp/store --system aarch64-linux",
+      );
+      // The nix-args reach nix-eval-jobs itself; nix run only gets the store
+      expect(evaluation).toContain(
+        "run nixpkgs#nix-eval-jobs --inputs-from path:/tmp/dix-base-main --store /tmp/store -- --workers 2 --store /tmp/store --system aarch64-linux --expr",
+      );
+      expect(evaluation).toContain(
+        'builtins.getFlake "path:/nix/store/aaa-source?narHash=sha256-abc"',
+      );
+      expect(evaluation).not.toContain("--impure");
+    } finally {
+      process.env.PATH = path;
+      fs.rmSync(bin, { recursive: true, force: true });
+    }
   });
+});
 
-  test("returns false for empty string", () => {
-    expect(hasDixChanges("")).toBe(false);
+describe("applyExtraArgs", () => {
+  test("inserts arguments before the program separator", () => {
+    expect(
+      applyExtraArgs(["run", "nixpkgs#dix", "--", "/a", "/b"], ["--store", "/tmp/store"]),
+    ).toEqual(["run", "nixpkgs#dix", "--store", "/tmp/store", "--", "/a", "/b"]);
+    expect(applyExtraArgs(["path-info", "ref"], ["--impure"])).toEqual([
+      "path-info",
+      "ref",
+      "--impure",
+    ]);
+  });
+
+  test("never overrides inputs of the flake the diff tool comes from", () => {
+    expect(
+      applyExtraArgs(
+        ["run", "nixpkgs#dix", "--", "/a", "/b"],
+        ["--override-input", "nixpkgs", "github:evil/nixpkgs", "--impure"],
+      ),
+    ).toEqual(["run", "nixpkgs#dix", "--impure", "--", "/a", "/b"]);
+  });
+
+  test("runs the diff tool for the runner's system", () => {
+    expect(
+      applyExtraArgs(["run", "nixpkgs#dix", "--", "/a", "/b"], ["--system", "aarch64-linux"]),
+    ).toEqual(["run", "nixpkgs#dix", "--", "/a", "/b"]);
+    expect(applyExtraArgs(["path-info", "ref"], ["--system", "aarch64-linux"])).toEqual([
+      "path-info",
+      "ref",
+      "--system",
+      "aarch64-linux",
+    ]);
   });
+});
 
-  test("returns false for whitespace only", () => {
-    expect(hasDixChanges("   \n  ")).toBe(false);
+describe("expandDisplayName", () => {
+  test("replaces placeholders with matched segments", () => {
+    expect(expandDisplayName("$1-$2", ["host1", "x86_64-linux"])).toBe("host1-x86_64-linux");
   });
 
-  test("returns false when paths are identical", () => {
-    const diff = `<<< /nix/store/c46hfz9v6wx96dbchx8szp3xf6di3hb7-nix-shell.drv
->>> /nix/store/c46hfz9v6wx96dbchx8szp3xf6di3hb7-nix-shell.drv
+  test("keeps placeholders without a matching segment", () => {
+    expect(expandDisplayName("$1 $2", ["host1"])).toBe("host1 $2");
+  });
+});
 
-SIZE: 14.6 MiB -> 14.6 MiB
-DIFF: 0 bytes`;
-    expect(hasDixChanges(diff)).toBe(false);
+describe("quoteAttributeName", () => {
+  test("keeps plain identifiers", () => {
+    expect(quoteAttributeName("my-host_1")).toBe("my-host_1");
+  });
+
+  test("quotes names that are not identifiers", () => {
+    expect(quoteAttributeName("host.example.com")).toBe('"host.example.com"');
+    expect(quoteAttributeName("1host")).toBe('"1host"');
   });
 
-  test("returns true when paths differ", () => {
-    const diff = `<<< /nix/store/abc123-old.drv
->>> /nix/store/def456-new.drv
+  test("escapes quotes and interpolation", () => {
+    expect(quoteAttributeName('a"b${c}')).toBe('"a\\"b\\${c}"');
+  });
+});
 
-SIZE: 10.0 MiB -> 12.0 MiB
-DIFF: 500 KiB`;
-    expect(hasDixChanges(diff)).toBe(true);
+describe("parseStorePathName", () => {
+  test("splits name and version", () => {
+    expect(
+      parseStorePathName("/nix/store/0c4jz2kdl9hkfb0f7n5dqa7f4wbdxh0k-hello-2.12.2.drv"),
+    ).toEqual({ name: "hello", version: "2.12.2" });
   });
 
-  test("returns true when cannot parse base path", () => {
-    const diff = `>>> /nix/store/def456-new.drv
+  test("keeps dashes followed by letters in the name", () => {
+    expect(
+      parseStorePathName(
+        "/nix/store/0c4jz2kdl9hkfb0f7n5dqa7f4wbdxh0k-nixos-system-host-25.11.20251225",
+      ),
+    ).toEqual({ name: "nixos-system-host", version: "25.11.20251225" });
+  });
 
-SIZE: 10.0 MiB`;
-    expect(hasDixChanges(diff)).toBe(true);
+  test("returns empty version when there is none", () => {
+    expect(
+      parseStorePathName("/nix/store/0c4jz2kdl9hkfb0f7n5dqa7f4wbdxh0k-unit-swww.service"),
+    ).toEqual({ name: "unit-swww.service", version: "" });
   });
+});
 
-  test("returns true when cannot parse pr path", () => {
-    const diff = `<<< /nix/store/abc123-old.drv
+describe("formatPackageList", () => {
+  test("lists derivations only for .drv roots", () => {
+    const list = formatPackageList(
+      "/nix/store/0c4jz2kdl9hkfb0f7n5dqa7f4wbdxh0k-system.drv",
+      [
+        "/nix/store/0c4jz2kdl9hkfb0f7n5dqa7f4wbdxh0k-system.drv",
+        "/nix/store/1c4jz2kdl9hkfb0f7n5dqa7f4wbdxh0k-hello-2.12.2.drv",
+        "/nix/store/2c4jz2kdl9hkfb0f7n5dqa7f4wbdxh0k-hello-2.12.2.tar.gz",
+      ],
+      "added",
+    );
+    expect(list).toBe(`>>> /nix/store/0c4jz2kdl9hkfb0f7n5dqa7f4wbdxh0k-system.drv
 
-SIZE: 10.0 MiB`;
-    expect(hasDixChanges(diff)).toBe(true);
+ADDED
+[A.] hello  2.12.2
+[A.] system <none>`);
   });
+});
 
-  test("handles paths with spaces correctly", () => {
-    const diff = `<<<   /nix/store/abc123-test.drv
->>>   /nix/store/abc123-test.drv
+describe("trimNixError", () => {
+  test("strips ANSI colors", () => {
+    expect(trimNixError("\x1b[31;1merror:\x1b[0m attribute missing")).toBe(
+      "error: attribute missing",
+    );
+  });
 
-SIZE: 5.0 MiB -> 5.0 MiB
-DIFF: 0 bytes`;
-    expect(hasDixChanges(diff)).toBe(false);
+  test("keeps the first line and the tail of long traces", () => {
+    const lines = ["error:", ...Array.from({ length: 50 }, (_, i) => `line ${i}`)];
+    const trimmed = trimNixError(lines.join("\n"), 10).split("\n");
+    expect(trimmed).toHaveLength(10);
+    expect(trimmed[0]).toBe("error:");
+    expect(trimmed[1]).toBe("… (42 lines omitted)");
+    expect(trimmed[9]).toBe("line 49");
   });
 });
 
-describe("hasPackageChanges", () => {
-  test("returns false for undefined", () => {
-    expect(hasPackageChanges(undefined)).toBe(false);
+describe("parseDixReport", () => {
+  const diff = `<<< /nix/var/nix/profiles/system-792-link
+>>> /nix/store/whdm0jm75sn6pn4397ss09zy7kxvm4pf-nixos-system-temperance-25.11.19800101.be9e214
+
+CHANGED
+[U.] 7zz                        24.09 → 25.00
+[U*] thunderbird                139.0.2 → 140.0
+[D.] foo                        1.2, 1.3 -> 1.1
+
+ADDED
+[A.] hostname-hostname-debian   3.25
+
+REMOVED
+[R-] swww                       0.10.3
+[R.] unit-swww.service          <none>
+
+SIZE: 29.7 GiB → 29.6 GiB
+DIFF: -19.3 MiB`;
+
+  test("parses header paths", () => {
+    const report = parseDixReport(diff);
+    expect(report.basePath).toBe("/nix/var/nix/profiles/system-792-link");
+    expect(report.prPath).toBe(
+      "/nix/store/whdm0jm75sn6pn4397ss09zy7kxvm4pf-nixos-system-temperance-25.11.19800101.be9e214",
+    );
   });
 
-  test("returns false for empty string", () => {
-    expect(hasPackageChanges("")).toBe(false);
+  test("parses entries with status and versions", () => {
+    const report = parseDixReport(diff);
+    expect(report.entries).toHaveLength(6);
+    expect(report.entries[0]).toEqual({
+      section: "changed",
+      status: "U.",
+      name: "7zz",
+      before: ["24.09"],
+      after: ["25.00"],
+    });
+    expect(report.entries[1].status).toBe("U*");
+    expect(report.entries[2]).toMatchObject({ before: ["1.2", "1.3"], after: ["1.1"] });
+    expect(report.entries[3]).toEqual({
+      section: "added",
+      status: "A.",
+      name: "hostname-hostname-debian",
+      before: [],
+      after: ["3.25"],
+    });
+    expect(report.entries[4]).toMatchObject({
+      section: "removed",
+      status: "R-",
+      before: ["0.10.3"],
+    });
   });
 
-  test("returns false for whitespace only", () => {
-    expect(hasPackageChanges("   \n  ")).toBe(false);
+  test("parses SIZE and DIFF lines", () => {
+    const report = parseDixReport(diff);
+    expect(report.size).toEqual({ before: "29.7 GiB", after: "29.6 GiB" });
+    expect(report.sizeDiff).toBe("-19.3 MiB");
+    expect(report.unrecognized).toEqual([]);
   });
 
-  test("returns true when package section is present", () => {
-    const diff = `<<< /nix/store/c7hi9s9k8p4gpa941c7z7qzh604dhgwp-nixos-system-lxc-share-lxc-proxmox-26.05.20251225.3e2499d.drv
->>> /nix/store/77k3zm8172bg5kq3chkpg4hqm9yzcm4k-nixos-system-lxc-share-lxc-proxmox-26.05.20251225.3e2499d.drv
+  test("formats a report back into dix output", () => {
+    expect(formatDixReport(parseDixReport(diff))).toBe(`<<< /nix/var/nix/profiles/system-792-link
+>>> /nix/store/whdm0jm75sn6pn4397ss09zy7kxvm4pf-nixos-system-temperance-25.11.19800101.be9e214
+
+CHANGED
+[U.] 7zz                      24.09 → 25.00
+[U*] thunderbird              139.0.2 → 140.0
+[D.] foo                      1.2, 1.3 → 1.1
 
 ADDED
-[A.] hello 2.12.2.drv, 2.12.2.tar.gz.drv
+[A.] hostname-hostname-debian 3.25
 
-SIZE: 18.8 MiB -> 18.8 MiB
-DIFF: 5.48 KiB`;
-    expect(hasPackageChanges(diff)).toBe(true);
+REMOVED
+[R-] swww                     0.10.3
+[R.] unit-swww.service        <none>
+
+SIZE: 29.7 GiB → 29.6 GiB
+DIFF: -19.3 MiB`);
   });
 
-  test("returns false when no package section is present", () => {
-    const diff = `<<< /nix/store/qhhdx5khfpa07zc1lwfxcbrhn4r2g9xm-darwin-system-26.05.c2b3620.drv
->>> /nix/store/b3g2v8jf13307zkcmip1w6wdxwhhijrp-darwin-system-26.05.c2b3620.drv
+  test("collects unrecognized lines", () => {
+    const report = parseDixReport("CHANGED\nsomething else\n[U.] a 1 -> 2");
+    expect(report.entries).toHaveLength(1);
+    expect(report.unrecognized).toEqual(["something else"]);
+  });
+});
 
-SIZE: 260 MiB -> 260 MiB
-DIFF: 32 bytes`;
-    expect(hasPackageChanges(diff)).toBe(false);
+describe("flake.lock input changes", () => {
+  const lock = (nodes: Record<string, object>) =>
+    JSON.stringify({
+      nodes: {
+        ...Object.fromEntries(Object.entries(nodes).map(([name, locked]) => [name, { locked }])),
+        root: { inputs: Object.fromEntries(Object.keys(nodes).map((name) => [name, name])) },
+      },
+      root: "root",
+      version: 7,
+    });
+  const nixpkgs = (rev: string, lastModified: number) => ({
+    type: "github",
+    owner: "NixOS",
+    repo: "nixpkgs",
+    rev,
+    narHash: `sha256-${rev}`,
+    lastModified,
+  });
+
+  test("lists updated, added and removed inputs", () => {
+    const changes = diffFlakeLocks(
+      lock({
+        nixpkgs: nixpkgs("a".repeat(40), 1714521600),
+        "flake-utils": {
+          type: "github",
+          owner: "numtide",
+          repo: "flake-utils",
+          rev: "c".repeat(40),
+        },
+        old: { type: "path", path: "/x", narHash: "sha256-old" },
+      }),
+      lock({
+        nixpkgs: nixpkgs("b".repeat(40), 1715299200),
+        "flake-utils": {
+          type: "github",
+          owner: "numtide",
+          repo: "flake-utils",
+          rev: "c".repeat(40),
+        },
+        new: { type: "gitlab", owner: "group", repo: "proj", rev: "d".repeat(40) },
+      }),
+    );
+
+    expect(changes.map((c) => [c.input, c.change])).toEqual([
+      ["new", "added"],
+      ["nixpkgs", "updated"],
+      ["old", "removed"],
+    ]);
+  });
+
+  test("renders revisions, dates and compare links", () => {
+    const changes = diffFlakeLocks(
+      lock({ nixpkgs: nixpkgs("a".repeat(40), 1714521600) }),
+      lock({ nixpkgs: nixpkgs("b".repeat(40), 1715299200) }),
+    );
+    const comment = formatAggregatedComment([], "sha", { inputChanges: changes });
+
+    expect(comment).toContain("### Flake inputs");
+    expect(comment).toContain(
+      `| nixpkgs | \`aaaaaaa\` (2024-05-01) | \`bbbbbbb\` (2024-05-10) | [compare](https://github.com/NixOS/nixpkgs/compare/${"a".repeat(40)}...${"b".repeat(40)}) |`,
+    );
+  });
+
+  test("links GitLab compares and treats a missing lock file as empty", () => {
+    const gitlab = (rev: string) => ({ type: "gitlab", owner: "group", repo: "proj", rev });
+    const table = formatInputChanges(
+      diffFlakeLocks(
+        lock({ proj: gitlab("1".repeat(40)) }),
+        lock({ proj: gitlab("2".repeat(40)) }),
+      ),
+    );
+    expect(table).toContain(
+      `https://gitlab.com/group/proj/-/compare/${"1".repeat(40)}...${"2".repeat(40)}`,
+    );
+    expect(diffFlakeLocks(undefined, lock({ proj: gitlab("1".repeat(40)) }))).toEqual([
+      { input: "proj", change: "added", after: gitlab("1".repeat(40)) },
+    ]);
   });
 });
 
-describe("isOnlyMinorNixpkgsUpdate", () => {
-  test("returns true when diff is exactly minor nixpkgs update", () => {
-    const diff = `<<< /nix/store/old-nixos-system-eule-26.05.20251225.3e2499d.drv
->>> /nix/store/new-nixos-system-eule-26.05.20251228.c0b0e0f.drv
+describe("rebuild estimate", () => {
+  test("parses the dry-run summary", () => {
+    const output = `these 3 derivations will be built:
+  /nix/store/aaa-hello-2.12.2.drv
+these 12 paths will be fetched (45.50 MiB download, 210.00 MiB unpacked):
+  /nix/store/bbb-glibc-2.40`;
+    expect(parseDryRunOutput(output)).toEqual({
+      build: 3,
+      fetch: 12,
+      downloadBytes: 47710208,
+      unpackedBytes: 220200960,
+    });
+  });
 
-CHANGED
-[U.] nixos-system-eule 26.05.20251225.3e2499d.drv -> 26.05.20251228.c0b0e0f.drv
+  test("handles single items and nothing to do", () => {
+    expect(
+      parseDryRunOutput(`this derivation will be built:
+  /nix/store/aaa-hello.drv
+this path will be fetched (0.01 MiB download, 0.05 MiB unpacked):
+  /nix/store/bbb-foo`),
+    ).toEqual({ build: 1, fetch: 1, downloadBytes: 10486, unpackedBytes: 52429 });
+    expect(parseDryRunOutput("")).toEqual({
+      build: 0,
+      fetch: 0,
+      downloadBytes: 0,
+      unpackedBytes: 0,
+    });
+  });
 
-SIZE: 10.0 MiB -> 10.0 MiB
-DIFF: -248 bytes`;
-    expect(isOnlyMinorNixpkgsUpdate(diff)).toBe(true);
+  test("is shown in the attribute section", () => {
+    const comment = formatAggregatedComment(
+      [
+        {
+          displayName: "host",
+          attributePath: "nixosConfigurations.host",
+          baseRef: "abc",
+          prRef: "def",
+          diff: "diff",
+          rebuild: { build: 3, fetch: 12, downloadBytes: 47710208, unpackedBytes: 220200960 },
+        },
+      ],
+      "def",
+    );
+    expect(comment).toContain(
+      "**Rebuild**: 3 to build, 12 to fetch (45.5 MiB download, 210.0 MiB unpacked)",
+    );
   });
+});
 
-  test("returns false when change is not a [U.] nixos-system update", () => {
-    const diff = `<<< /nix/store/old-nixos-system-eule-26.05.20251225.3e2499d.drv
->>> /nix/store/new-nixos-system-eule-26.05.20251228.c0b0e0f.drv
+describe("closure size breakdown", () => {
+  const hash = (c: string) => c.repeat(32);
+
+  test("parses path-info JSON in both the array and object formats", () => {
+    const path = `/nix/store/${hash("a")}-hello-2.12.2`;
+    expect(parsePathInfoSizes(JSON.stringify([{ path, narSize: 100 }]))).toEqual(
+      new Map([[path, 100]]),
+    );
+    expect(parsePathInfoSizes(JSON.stringify({ [path]: { narSize: 100 } }))).toEqual(
+      new Map([[path, 100]]),
+    );
+  });
+
+  test("groups paths by package and ranks changes by size", () => {
+    const base = new Map([
+      [`/nix/store/${hash("a")}-glibc-2.39`, 1000],
+      [`/nix/store/${hash("b")}-glibc-2.39-bin`, 500],
+      [`/nix/store/${hash("c")}-perl-5.38`, 300],
+      [`/nix/store/${hash("d")}-zlib-1.3`, 100],
+      [`/nix/store/${hash("e")}-bash-5.2`, 50],
+    ]);
+    const pr = new Map([
+      [`/nix/store/${hash("f")}-glibc-2.40`, 1200],
+      [`/nix/store/${hash("g")}-glibc-2.40-bin`, 600],
+      [`/nix/store/${hash("d")}-zlib-1.3`, 100],
+      [`/nix/store/${hash("h")}-bash-5.3`, 40],
+      [`/nix/store/${hash("i")}-python3-3.12`, 4000],
+      [`/nix/store/${hash("j")}-openssl-3.0`, 2000],
+    ]);
+
+    expect(computeSizeBreakdown(base, pr, 1)).toEqual({
+      grew: [{ name: "glibc", before: 1500, after: 1800 }],
+      shrank: [{ name: "bash", before: 50, after: 40 }],
+      appeared: [{ name: "python3", before: 0, after: 4000 }],
+      disappeared: [{ name: "perl", before: 300, after: 0 }],
+    });
+  });
+
+  test("formats a table and renders nothing without changes", () => {
+    const table = formatSizeBreakdown({
+      grew: [{ name: "glibc", before: 1024, after: 2048 }],
+      shrank: [],
+      appeared: [{ name: "python3", before: 0, after: 1024 * 1024 }],
+      disappeared: [],
+    });
+    expect(table).toContain("| grew | glibc | 1.0 KiB | 2.0 KiB | +1.0 KiB |");
+    expect(table).toContain("| added | python3 | - | 1.0 MiB | +1.0 MiB |");
+    expect(formatSizeBreakdown({ grew: [], shrank: [], appeared: [], disappeared: [] })).toBe("");
+  });
+});
+
+describe("why-depends", () => {
+  const hash = (c: string) => c.repeat(32);
+
+  test("parses the chain from the why-depends tree", () => {
+    const output = `/nix/store/${hash("a")}-nixos-system-host
+└───/nix/store/${hash("b")}-etc
+    └───/nix/store/${hash("c")}-python3-3.12.8
+`;
+    expect(parseWhyDependsOutput(output)).toEqual([
+      `/nix/store/${hash("a")}-nixos-system-host`,
+      `/nix/store/${hash("b")}-etc`,
+      `/nix/store/${hash("c")}-python3-3.12.8`,
+    ]);
+  });
+
+  test("finds a closure path for each added package name", () => {
+    const pr = [
+      `/nix/store/${hash("c")}-glibc-2.40`,
+      `/nix/store/${hash("e")}-python3-3.12.8-env`,
+      `/nix/store/${hash("d")}-python3-3.12.8`,
+    ];
+    expect(findAddedPackagePaths(["python3", "python3", "ruby"], pr)).toEqual([
+      { name: "python3", path: `/nix/store/${hash("d")}-python3-3.12.8` },
+    ]);
+  });
+
+  test("renders each chain as a collapsible tree", () => {
+    const text = formatDependencyChains([
+      {
+        name: "python3",
+        chain: [
+          `/nix/store/${hash("a")}-nixos-system-host`,
+          `/nix/store/${hash("b")}-etc`,
+          `/nix/store/${hash("c")}-python3-3.12.8`,
+        ],
+      },
+    ]);
+    expect(text).toContain("<summary>Why is python3 added?</summary>");
+    expect(text).toContain("nixos-system-host\n└── etc\n    └── python3-3.12.8");
+  });
+
+  test("says how many added packages were not explained", () => {
+    const chain = { name: "python3", chain: [`/nix/store/${hash("a")}-host`] };
+    expect(formatDependencyChains([chain])).not.toContain("not explained");
+    expect(formatDependencyChains([chain], 1)).toContain("1 more added package was not explained");
+    expect(formatDependencyChains([chain], 5)).toMatch(
+      /<\/details>\n\n5 more added packages were not explained$/,
+    );
+  });
+});
+
+describe("duplicate versions", () => {
+  const hash = (c: string) => c.repeat(32);
+
+  test("reports packages the PR has in more versions than base", () => {
+    const base = [
+      `/nix/store/${hash("a")}-openssl-3.0.15`,
+      `/nix/store/${hash("b")}-python3-3.11.9`,
+      `/nix/store/${hash("c")}-python3-3.12.8`,
+    ];
+    const pr = [
+      `/nix/store/${hash("d")}-openssl-3.0.15`,
+      `/nix/store/${hash("e")}-openssl-3.3.2`,
+      `/nix/store/${hash("f")}-openssl-3.3.2-bin`,
+      `/nix/store/${hash("g")}-python3-3.11.9`,
+      `/nix/store/${hash("h")}-python3-3.12.9`,
+    ];
+    expect(findDuplicateVersions(base, pr)).toEqual([
+      { name: "openssl", baseVersions: ["3.0.15"], prVersions: ["3.0.15", "3.3.2"] },
+    ]);
+  });
+
+  test("only counts derivations in derivation closures", () => {
+    const pr = [
+      `/nix/store/${hash("a")}-openssl-3.3.2.drv`,
+      `/nix/store/${hash("b")}-openssl-3.3.2.tar.gz.drv`,
+      `/nix/store/${hash("c")}-openssl-3.0.15.tar.gz`,
+    ];
+    expect(findDuplicateVersions([], pr)).toEqual([]);
+  });
+
+  test("formats a table and renders nothing without duplicates", () => {
+    expect(
+      formatDuplicateVersions([
+        { name: "openssl", baseVersions: [], prVersions: ["3.0.15", "3.3.2"] },
+      ]),
+    ).toContain("| openssl | - | 3.0.15, 3.3.2 |");
+    expect(formatDuplicateVersions([])).toBe("");
+  });
+});
+
+describe("evaluation warnings", () => {
+  test("extracts warnings and traces without store path hashes", () => {
+    const stderr = [
+      "\u001b[35;1mevaluation warning:\u001b[0m The option `services.foo' has been renamed to `services.bar'.",
+      "trace: using /nix/store/" + "a".repeat(32) + "-source/lib",
+      "warning: Git tree '/home/runner/work/repo' is dirty",
+      "building '/nix/store/" + "b".repeat(32) + "-hello.drv'...",
+    ].join("\n");
+    expect(extractWarnings(stderr)).toEqual([
+      "evaluation warning: The option `services.foo' has been renamed to `services.bar'.",
+      "trace: using /nix/store/…-source/lib",
+    ]);
+  });
+
+  test("keeps the continuation lines of multi-line warnings", () => {
+    const stderr = [
+      "trace: first line",
+      "second line",
+      "  indented third line",
+      "building '/nix/store/" + "b".repeat(32) + "-hello.drv'...",
+      "evaluation warning: single line",
+      "",
+      "unrelated output",
+    ].join("\n");
+    expect(extractWarnings(stderr)).toEqual([
+      "trace: first line\nsecond line\n  indented third line",
+      "evaluation warning: single line",
+    ]);
+    expect(
+      formatEvalWarnings({ introduced: ["trace: first line\nsecond line"], resolved: [] }),
+    ).toContain("+ trace: first line\n+ second line");
+  });
+
+  test("diffs and formats introduced and resolved warnings", () => {
+    const warnings = diffWarnings(
+      ["trace: old", "warning: kept"],
+      ["warning: kept", "warning: new"],
+    );
+    expect(warnings).toEqual({ introduced: ["warning: new"], resolved: ["trace: old"] });
+
+    const text = formatEvalWarnings(warnings);
+    expect(text).toContain("**Evaluation warnings**: 1 introduced, 1 resolved");
+    expect(text).toContain("+ warning: new\n- trace: old");
+    expect(formatEvalWarnings({ introduced: [], resolved: [] })).toBe("");
+  });
+});
+
+describe("table rendering", () => {
+  const diff = `<<< /nix/store/a-system
+>>> /nix/store/b-system
 
 CHANGED
-something else
-[U.] nixos-system-eule 26.05.20251225.3e2499d.drv -> 26.05.20251228.c0b0e0f.drv
+[U*] firefox 120.0 -> 121.0
+[U.] openssl 3.0.13 -> 3.0.14
+[D.] glib 2.80.0 -> 2.78.4
 
-SIZE: 10.0 MiB -> 10.0 MiB
-DIFF: -248 bytes`;
-    expect(isOnlyMinorNixpkgsUpdate(diff)).toBe(false);
+ADDED
+[A.] newdep 1.0
+
+SIZE: 10.0 GiB -> 10.1 GiB
+DIFF: 100 MiB`;
+
+  test("classifies version bumps by the first differing component", () => {
+    expect(classifyVersionBump("120.0", "121.0")).toBe("major");
+    expect(classifyVersionBump("2.80.0", "2.78.4")).toBe("minor");
+    expect(classifyVersionBump("3.0.13", "3.0.14")).toBe("patch");
+    expect(classifyVersionBump("1.2", "1.2.1")).toBe("patch");
+    expect(classifyVersionBump("0-unstable-2024-01-01", "0-unstable-2024-02-01")).toBe("patch");
+    expect(classifyVersionBump("1.0-rc1", "1.0-rc2")).toBe("other");
+    expect(classifyVersionBump("1.0", "1.0")).toBeUndefined();
+  });
+
+  test("renders a header line and one row per entry", () => {
+    const { text, truncated } = formatDixTable(parseDixReport(diff), 10000);
+    expect(truncated).toBe(false);
+    expect(text).toContain(
+      "**3 changed, 1 added, 0 removed** · Size: 10.0 GiB → 10.1 GiB (100 MiB)",
+    );
+    expect(text).toContain("| ⬆️ | firefox | 120.0 | 121.0 | 🔴 major |");
+    expect(text).toContain("| ⬇️ | glib | 2.80.0 | 2.78.4 | 🟡 minor |");
+    expect(text).toContain("| ➕ | newdep | - | 1.0 | added |");
+  });
+
+  test("summarizes rows that do not fit", () => {
+    const { text, truncated } = formatDixTable(parseDixReport(diff), 250);
+    expect(truncated).toBe(true);
+    expect(text.length).toBeLessThanOrEqual(250);
+    expect(text).toMatch(/\| \| \.\.\. \d more \| \| \| \|$/);
+  });
+
+  test("uses tables in comments with the table format", () => {
+    const result = {
+      displayName: "host1",
+      attributePath: "nixosConfigurations.host1",
+      baseRef: "abc123def456",
+      prRef: "789ghi012jkl",
+      diff,
+      report: parseDixReport(diff),
+    };
+    const table = formatAggregatedComment([result], "789ghi012jkl", { format: "table" });
+    expect(table).toContain("| ⬆️ | firefox | 120.0 | 121.0 | 🔴 major |");
+    expect(table).not.toContain("[U*] firefox");
+
+    const text = formatAggregatedComment([result], "789ghi012jkl");
+    expect(text).toContain("[U*] firefox");
+  });
+
+  test("budgets tables by their rendered length", () => {
+    const entries = Array.from({ length: 150 }, (_, i) => `[U.] pkg${i} 1.0 -> 1.1`);
+    const manyDiff = `<<< /nix/store/a-system\n>>> /nix/store/b-system\n\nCHANGED\n${entries.join("\n")}`;
+    const result = {
+      displayName: "host1",
+      attributePath: "nixosConfigurations.host1",
+      baseRef: "abc123def456",
+      prRef: "789ghi012jkl",
+      diff: manyDiff,
+      report: parseDixReport(manyDiff),
+    };
+    const comment = formatAggregatedComment([result], "789ghi012jkl", { format: "table" });
+    expect(comment).toContain("| pkg149 |");
+    expect(comment).not.toContain("more |");
+    expect(checkIfAnyDiffTruncated([result], "table")).toBe(false);
+
+    // A table larger than the comment counts as truncated even when the text would fit
+    const huge = Array.from({ length: 1500 }, (_, i) => `[U.] package-${i} 1.0 -> 1.1`);
+    const hugeDiff = `<<< /nix/store/a-system\n>>> /nix/store/b-system\n\nCHANGED\n${huge.join("\n")}`;
+    const hugeResult = { ...result, diff: hugeDiff, report: parseDixReport(hugeDiff) };
+    expect(checkIfAnyDiffTruncated([hugeResult])).toBe(false);
+    expect(checkIfAnyDiffTruncated([hugeResult], "table")).toBe(true);
+  });
+});
+
+describe("package matrix", () => {
+  const makeResult = (displayName: string, entries: string) => {
+    const diff = `<<< /nix/store/a-${displayName}\n>>> /nix/store/b-${displayName}\n\n${entries}`;
+    return {
+      displayName,
+      attributePath: `nixosConfigurations.${displayName}`,
+      baseRef: "abc123def456",
+      prRef: "789ghi012jkl",
+      diff,
+      report: parseDixReport(diff),
+    };
+  };
+  const results = [
+    makeResult("hostA", "CHANGED\n[U.] openssl 3.0.13 -> 3.0.14\n[U.] curl 8.7 -> 8.8"),
+    makeResult("hostB", "CHANGED\n[U.] openssl 3.0.13 -> 3.0.14\n\nADDED\n[A.] nginx 1.26"),
+    makeResult("hostC", "CHANGED\n[U.] openssl 3.0.13 -> 3.0.14\n[U.] curl 8.6 -> 8.8"),
+  ];
+
+  test("groups identical transitions across attributes", () => {
+    const transitions = groupPackageTransitions(results);
+    expect(transitions[0]).toEqual({
+      section: "changed",
+      name: "openssl",
+      before: ["3.0.13"],
+      after: ["3.0.14"],
+      attributes: ["hostA", "hostB", "hostC"],
+    });
+    // Different base versions are different transitions
+    expect(transitions.filter((t) => t.name === "curl")).toHaveLength(2);
+  });
+
+  test("renders a package by attribute matrix", () => {
+    const matrix = formatPackageMatrix(results);
+    expect(matrix).toContain("| Package | Change | hostA | hostB | hostC |");
+    expect(matrix).toContain("| openssl | 3.0.13 → 3.0.14 | ✓ | ✓ | ✓ |");
+    expect(matrix).toContain("| nginx | added 1.26 |  | ✓ |  |");
+    expect(formatPackageMatrix(results.slice(0, 1))).toBe("");
+  });
+
+  test("places the matrix above the sections when enabled", () => {
+    const comment = formatAggregatedComment(results, "789ghi012jkl", { packageMatrix: true });
+    expect(comment.indexOf("### Package changes")).toBeGreaterThan(-1);
+    expect(comment.indexOf("### Package changes")).toBeLessThan(
+      comment.indexOf("<summary>hostA</summary>"),
+    );
+    expect(formatAggregatedComment(results, "789ghi012jkl")).not.toContain("### Package changes");
+  });
+});
+
+describe("comment templates", () => {
+  test("renders variables, sections and inverted sections", () => {
+    const template = parseTemplate(
+      "{{title}}: {{#items}}[{{name}}{{#extra}} {{extra.value}}{{/extra}}]{{/items}}{{^items}}none{{/items}}",
+    );
+    expect(
+      renderTemplate(template, {
+        title: "Hosts",
+        items: [{ name: "a", extra: { value: 1 } }, { name: "<b>" }],
+      }),
+    ).toBe("Hosts: [a 1][<b>]");
+    expect(renderTemplate(template, { title: "Hosts", items: [] })).toBe("Hosts: none");
+  });
+
+  test("drops lines holding only a section tag", () => {
+    const template = parseTemplate("start\n{{#items}}\n- {{.}}\n{{/items}}\nend\n");
+    expect(renderTemplate(template, { items: ["x", "y"] })).toBe("start\n- x\n- y\nend\n");
+  });
+
+  test("rejects unbalanced sections", async () => {
+    expect(() => parseTemplate("{{#results}}")).toThrow("unclosed section {{#results}}");
+    expect(() => parseTemplate("{{/results}}")).toThrow("unexpected {{/results}}");
+
+    const exit = await Effect.runPromiseExit(
+      loadCommentTemplate("{{#results}}\n", "", "/workspace"),
+    );
+    expect(exit).toStrictEqual(
+      Exit.fail(
+        new CommentTemplateError({
+          message: "Invalid comment-template: unclosed section {{#results}}",
+        }),
+      ),
+    );
+  });
+
+  test("treats comment-template as inline, even on a single line", async () => {
+    const template = await Effect.runPromise(loadCommentTemplate("template.md", "", "/workspace"));
+    expect(renderTemplate(Option.getOrThrow(template), {})).toBe("template.md");
+
+    const both = await Effect.runPromiseExit(
+      loadCommentTemplate("{{sections}}", "template.md", "/workspace"),
+    );
+    expect(Exit.isFailure(both)).toBe(true);
+  });
+
+  test("reads comment-template-file from the workspace", async () => {
+    const workspace = fs.mkdtempSync(nodePath.join(os.tmpdir(), "nix-diff-template-"));
+    const outside = fs.mkdtempSync(nodePath.join(os.tmpdir(), "nix-diff-outside-"));
+    try {
+      fs.writeFileSync(nodePath.join(workspace, "template.md"), "Report {{shortSha}}");
+      fs.writeFileSync(nodePath.join(outside, "secret"), "TOKEN");
+      fs.symlinkSync(nodePath.join(outside, "secret"), nodePath.join(workspace, "link.md"));
+      fs.symlinkSync(outside, nodePath.join(workspace, "dir"));
+
+      const template = await Effect.runPromise(loadCommentTemplate("", "template.md", workspace));
+      expect(renderTemplate(Option.getOrThrow(template), { shortSha: "abc1234" })).toBe(
+        "Report abc1234",
+      );
+
+      for (const path of ["../template.md", "link.md", "dir/secret"]) {
+        const exit = await Effect.runPromiseExit(loadCommentTemplate("", path, workspace));
+        expect(Exit.isFailure(exit)).toBe(true);
+      }
+    } finally {
+      fs.rmSync(workspace, { recursive: true, force: true });
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  test("keeps the markers around a templated comment", async () => {
+    const template = await Effect.runPromise(
+      loadCommentTemplate(
+        "Checked {{shortSha}}\n{{#results}}\n- {{displayName}}: {{changed}} changed{{#truncated}} (truncated){{/truncated}}\n{{/results}}",
+        "",
+        "/workspace",
+      ),
+    );
+    const diff =
+      "<<< /nix/store/a-host1\n>>> /nix/store/b-host1\n\nCHANGED\n[U.] openssl 3.0.13 -> 3.0.14";
+    const comment = formatAggregatedComment(
+      [
+        {
+          displayName: "host1",
+          attributePath: "nixosConfigurations.host1",
+          baseRef: "abc123def456",
+          prRef: "789ghi012jkl",
+          diff,
+          report: parseDixReport(diff),
+        },
+      ],
+      "789ghi012jkl",
+      { template: Option.getOrThrow(template) },
+    );
+    expect(comment).toBe(
+      "<!-- nix-diff-action:host1 -->\nChecked 789ghi0\n- host1: 1 changed\n<!-- nix-diff-action-footer sha=789ghi012jkl -->",
+    );
+  });
+});
+
+describe("publishing comments", () => {
+  type MockComment = { id: number; body: string; node_id: string; html_url: string };
+
+  // In-memory PR conversation behind the Octokit calls the service makes
+  const createMockOctokit = (initial: readonly { id: number; body: string }[] = []) => {
+    const comments: MockComment[] = initial.map((c) => ({
+      ...c,
+      node_id: `node-${c.id}`,
+      html_url: `https://github.com/owner/repo/pull/1#issuecomment-${c.id}`,
+    }));
+    const minimized: string[] = [];
+    const checkRuns: Record<string, unknown>[] = [];
+    let nextId = 100;
+    const octokit = {
+      paginate: async (
+        method: (params: unknown) => Promise<{ data: unknown[] }>,
+        params: unknown,
+      ) => (await method(params)).data,
+      graphql: async (_query: string, variables: { input: { subjectId: string } }) => {
+        minimized.push(variables.input.subjectId);
+      },
+      rest: {
+        issues: {
+          listComments: async () => ({ data: comments.map((c) => ({ ...c })) }),
+          createComment: async ({ body }: { body: string }) => {
+            const id = nextId++;
+            const comment = {
+              id,
+              body,
+              node_id: `node-${id}`,
+              html_url: `https://github.com/owner/repo/pull/1#issuecomment-${id}`,
+            };
+            comments.push(comment);
+            return { data: comment };
+          },
+          updateComment: async ({ comment_id, body }: { comment_id: number; body: string }) => {
+            const comment = comments.find((c) => c.id === comment_id);
+            if (!comment) throw new Error(`no comment ${comment_id}`);
+            comment.body = body;
+            return { data: comment };
+          },
+          deleteComment: async ({ comment_id }: { comment_id: number }) => {
+            comments.splice(
+              comments.findIndex((c) => c.id === comment_id),
+              1,
+            );
+            return { data: undefined };
+          },
+        },
+        checks: {
+          create: async (params: Record<string, unknown>) => {
+            checkRuns.push(params);
+            return { data: {} };
+          },
+        },
+      },
+    };
+    return { octokit: octokit as unknown as Octokit, comments, minimized, checkRuns };
+  };
+
+  const context = { repo: { owner: "owner", repo: "repo" } } as unknown as GitHubContext;
+  const pr = {
+    number: 1,
+    base: { ref: "main", sha: "abc123def456" },
+    head: { ref: "feature", sha: "789ghi012jkl" },
+  };
+  // dix output with the given number of changed packages; 1000 entries take about 25k
+  const makeResults = (count: number, entries: number) =>
+    Array.from({ length: count }, (_, i) => ({
+      displayName: `host${i + 1}`,
+      attributePath: `nixosConfigurations.host${i + 1}`,
+      baseRef: "abc123def456",
+      prRef: "789ghi012jkl",
+      diff: `<<< /nix/store/a-host${i + 1}\n>>> /nix/store/b-host${i + 1}\n\nCHANGED\n${Array.from(
+        { length: entries },
+        (_, j) => `[U.] package-${j} 1.0 -> 1.1`,
+      ).join("\n")}`,
+    }));
+
+  const post = (
+    octokit: Octokit,
+    results: readonly DiffResult[],
+    commentStrategy: "create" | "update",
+  ) =>
+    Effect.runPromise(
+      Effect.gen(function* () {
+        const github = yield* GitHubService;
+        yield* github.postAggregatedComment(octokit, context, pr, results, {
+          skipNoChange: true,
+          commentStrategy,
+          filters: [],
+        });
+      }).pipe(Effect.provide(GitHubService.Default)),
+    );
+
+  test("create posts every part, links them and minimizes outdated reports", async () => {
+    const { octokit, comments, minimized } = createMockOctokit([
+      { id: 1, body: "<!-- nix-diff-action -->\nold\n<!-- nix-diff-action-footer sha=old -->" },
+      { id: 2, body: "unrelated" },
+    ]);
+
+    await post(octokit, makeResults(4, 1000), "create");
+
+    expect(minimized).toEqual(["node-1"]);
+    const [first, second] = comments.slice(2);
+    expect(first.body).toContain("<!-- nix-diff-action -->");
+    expect(second.body).toContain("<!-- nix-diff-action part=2 -->");
+    expect(first.body).toContain(`1 · [2](${second.html_url})`);
+    expect(second.body).toContain(`[1](${first.html_url}) · 2`);
+  });
+
+  test("update edits parts in place and deletes leftover parts", async () => {
+    const { octokit, comments } = createMockOctokit([
+      { id: 1, body: "<!-- nix-diff-action -->\nold part 1" },
+      { id: 2, body: "<!-- nix-diff-action part=2 -->\nold part 2" },
+      { id: 3, body: "<!-- nix-diff-action part=3 -->\nold part 3" },
+    ]);
+
+    await post(octokit, makeResults(4, 1000), "update");
+
+    expect(comments.map((c) => c.id)).toEqual([1, 2]);
+    expect(comments[0].body).toContain("## Nix Diff (1/2)");
+    expect(comments[0].body).toContain(`[2](${comments[1].html_url})`);
+    expect(comments[1].body).toContain("## Nix Diff (2/2)");
+  });
+
+  test("update treats a report posted before splitting as part 1", async () => {
+    const { octokit, comments } = createMockOctokit([
+      { id: 1, body: "<!-- nix-diff-action -->\n## Nix Diff\nold report" },
+    ]);
+
+    await post(octokit, makeResults(4, 1000), "update");
+
+    expect(comments.map((c) => c.id)).toEqual([1, 100]);
+    expect(comments[0].body).toContain("## Nix Diff (1/2)");
+    expect(comments[1].body).toContain("<!-- nix-diff-action part=2 -->");
+  });
+
+  test("posts flake input changes even when filters hide every package change", async () => {
+    const { octokit, comments } = createMockOctokit();
+    const results = makeResults(1, 0).map((result) => ({
+      ...result,
+      inputChanges: [
+        {
+          input: "nixpkgs",
+          change: "updated" as const,
+          before: { type: "github" },
+          after: { type: "github" },
+        },
+      ],
+    }));
+
+    await post(octokit, results, "create");
+    expect(comments).toHaveLength(1);
+    expect(comments[0].body).toContain("### Flake inputs");
+    expect(comments[0].body).toContain("nixpkgs");
+
+    // Nothing at all to report is still skipped
+    const empty = createMockOctokit();
+    await post(empty.octokit, makeResults(1, 0), "create");
+    expect(empty.comments).toHaveLength(0);
+  });
+
+  test("creates a check run with a stable name even with nothing to report", async () => {
+    const { octokit, checkRuns } = createMockOctokit();
+    const createCheckRun = (results: ReturnType<typeof makeResults>) =>
+      Effect.runPromise(
+        Effect.gen(function* () {
+          const github = yield* GitHubService;
+          yield* github.createCheckRun(octokit, context, "789ghi012jkl", results, {
+            skipNoChange: true,
+            commentStrategy: "create",
+            filters: [],
+          });
+        }).pipe(Effect.provide(GitHubService.Default)),
+      );
+
+    await createCheckRun([]);
+    await createCheckRun(makeResults(1, 3));
+
+    expect(checkRuns.map((run) => run.name)).toEqual(["nix-diff", "nix-diff"]);
+    expect(checkRuns[0]).toMatchObject({
+      head_sha: "789ghi012jkl",
+      conclusion: "success",
+      output: { title: "No differences found" },
+    });
+    expect(checkRuns[1]).toMatchObject({
+      output: { title: "1 attribute(s) with differences" },
+    });
+  });
+
+  test("keeps a check run with many attributes within the summary limit", async () => {
+    const { octokit, checkRuns } = createMockOctokit();
+    await Effect.runPromise(
+      Effect.gen(function* () {
+        const github = yield* GitHubService;
+        yield* github.createCheckRun(octokit, context, "789ghi012jkl", makeResults(200, 40), {
+          skipNoChange: true,
+          commentStrategy: "create",
+          filters: [],
+        });
+      }).pipe(Effect.provide(GitHubService.Default)),
+    );
+
+    const { summary } = checkRuns[0].output as { summary: string };
+    expect(summary.length).toBeLessThanOrEqual(65535);
+    expect(summary).toContain("truncated");
+  });
+
+  test("publishes merge group results as a check run and job summary", async () => {
+    const { octokit, comments, checkRuns } = createMockOctokit();
+    const summaries: string[] = [];
+    const defaults = Effect.runSync(GitHubService.pipe(Effect.provide(GitHubService.Default)));
+    const github = Layer.succeed(
+      GitHubService,
+      new GitHubService({
+        ...defaults,
+        getContext: () => context,
+        getDiffTarget: () =>
+          Effect.succeed({
+            event: "merge_group" as const,
+            base: { ref: "main", sha: "abc123def456" },
+            head: { ref: "gh-readonly-queue/main/pr-1", sha: "789ghi012jkl" },
+          }),
+        createOctokit: () => octokit,
+        writeJobSummary: (markdown: string) => Effect.sync(() => void summaries.push(markdown)),
+      }),
+    );
+
+    await Effect.runPromise(
+      postComment({
+        results: makeResults(1, 3),
+        runId: "1",
+        skipNoChange: true,
+        commentStrategy: "update",
+        filters: [],
+        outputTarget: "comment",
+        commentFormat: "text",
+        packageMatrix: false,
+        commentTemplate: Option.none(),
+        token: "token",
+        showArtifactLinkWhenTruncated: false,
+      }).pipe(Effect.provide(github)),
+    );
+
+    expect(comments).toHaveLength(0);
+    expect(summaries).toHaveLength(1);
+    expect(checkRuns).toHaveLength(1);
+    expect(checkRuns[0]).toMatchObject({ name: "nix-diff", head_sha: "789ghi012jkl" });
+  });
+
+  test("update collapses a split report that fits in one comment again", async () => {
+    const { octokit, comments } = createMockOctokit([
+      { id: 1, body: "<!-- nix-diff-action -->\nold part 1" },
+      { id: 2, body: "<!-- nix-diff-action part=2 -->\nold part 2" },
+    ]);
+
+    await post(octokit, makeResults(2, 3), "update");
+
+    expect(comments.map((c) => c.id)).toEqual([1]);
+    expect(comments[0].body).toContain("## Nix Diff\n");
+    expect(comments[0].body).not.toContain("Report split across");
   });
 });
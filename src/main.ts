@@ -11,17 +11,23 @@ import {
 import { ConfigProviderLayer, ActionConfig } from "./config.js";
 import {
   InvalidModeError,
-  NotPullRequestContextError,
+  UnsupportedEventError,
   MissingAttributesError,
   AttributeParseError,
   InvalidCommentStrategyError,
+  FilterParseError,
+  CommentTemplateError,
+  NixArgsParseError,
   InvalidDirectoryError,
   GitWorktreeError,
   NixPathInfoError,
   NixBuildError,
   NixDixError,
+  NixEvalError,
+  NixTimeoutError,
   GitHubApiError,
   ArtifactError,
+  AttributeFailuresError,
 } from "./errors.js";
 import { runFull, runDiff, runComment } from "./programs/index.js";
 import type { RunFullError } from "./programs/full.js";
@@ -62,11 +68,14 @@ export const run = (): Promise<void> =>
     ),
     Effect.catchTags({
       InvalidModeError: (e: InvalidModeError) => setFailed(`Invalid mode: ${e.mode}`),
-      NotPullRequestContextError: (e: NotPullRequestContextError) => setFailed(e.message),
+      UnsupportedEventError: (e: UnsupportedEventError) => setFailed(e.message),
       MissingAttributesError: (e: MissingAttributesError) => setFailed(e.message),
       AttributeParseError: (e: AttributeParseError) => setFailed(e.message),
       InvalidCommentStrategyError: (e: InvalidCommentStrategyError) =>
         setFailed(`Invalid comment strategy: ${e.value}`),
+      FilterParseError: (e: FilterParseError) => setFailed(e.message),
+      CommentTemplateError: (e: CommentTemplateError) => setFailed(e.message),
+      NixArgsParseError: (e: NixArgsParseError) => setFailed(e.message),
       InvalidDirectoryError: (e: InvalidDirectoryError) => setFailed(e.message),
       GitWorktreeError: (e: GitWorktreeError) =>
         setFailed(`Git ${e.operation} failed: ${e.message}`),
@@ -74,11 +83,15 @@ export const run = (): Promise<void> =>
         setFailed(`Nix path-info failed for ${e.flakeRef}: ${e.message}`),
       NixBuildError: (e: NixBuildError) =>
         setFailed(`Nix build failed for ${e.flakeRef}: ${e.message}`),
+      NixEvalError: (e: NixEvalError) =>
+        setFailed(`Nix eval failed for ${e.flakeRef}: ${e.message}`),
+      NixTimeoutError: (e: NixTimeoutError) => setFailed(`${e.attribute}: ${e.message}`),
       NixDixError: (e: NixDixError) =>
-        setFailed(`Nix dix failed comparing ${e.basePath} vs ${e.prPath}: ${e.message}`),
+        setFailed(`Nix diff failed comparing ${e.basePath} vs ${e.prPath}: ${e.message}`),
       GitHubApiError: (e: GitHubApiError) =>
         setFailed(`GitHub ${e.operation} failed: ${e.message}`),
       ArtifactError: (e: ArtifactError) => setFailed(`Artifact ${e.name} failed: ${e.message}`),
+      AttributeFailuresError: (e: AttributeFailuresError) => setFailed(e.message),
     }),
     // ConfigError uses _op instead of _tag, so handle it separately with catchIf
     Effect.catchIf(ConfigError.isConfigError, (e) => setFailed(`Configuration error: ${e}`)),
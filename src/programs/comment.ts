@@ -2,8 +2,10 @@ import { Effect } from "effect";
 import type { ConfigError } from "effect/ConfigError";
 import { GitHubService, ArtifactService } from "../services/index.js";
 import {
-  NotPullRequestContextError,
+  UnsupportedEventError,
   InvalidCommentStrategyError,
+  FilterParseError,
+  CommentTemplateError,
   ArtifactError,
   GitHubApiError,
 } from "../errors.js";
@@ -11,8 +13,10 @@ import { getGithubToken, loadCommentConfig, postComment } from "./shared.js";
 
 // Error type alias for better readability
 export type RunCommentError =
-  | NotPullRequestContextError
+  | UnsupportedEventError
   | InvalidCommentStrategyError
+  | FilterParseError
+  | CommentTemplateError
   | ArtifactError
   | GitHubApiError
   | ConfigError;
@@ -39,6 +43,11 @@ export const runComment: Effect.Effect<void, RunCommentError, GitHubService | Ar
       runId: String(context.runId),
       skipNoChange: commentConfig.skipNoChange,
       commentStrategy: commentConfig.commentStrategy,
+      filters: commentConfig.filters,
+      outputTarget: commentConfig.outputTarget,
+      commentFormat: commentConfig.commentFormat,
+      packageMatrix: commentConfig.packageMatrix,
+      commentTemplate: commentConfig.commentTemplate,
       token,
       showArtifactLinkWhenTruncated: true,
     });
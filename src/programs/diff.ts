@@ -2,29 +2,39 @@ import { Effect } from "effect";
 import type { ConfigError } from "effect/ConfigError";
 import { GitService, NixService, GitHubService, ArtifactService } from "../services/index.js";
 import {
-  NotPullRequestContextError,
+  UnsupportedEventError,
   MissingAttributesError,
   AttributeParseError,
   GitWorktreeError,
   NixPathInfoError,
   NixBuildError,
   NixDixError,
+  NixEvalError,
+  NixTimeoutError,
+  GitHubApiError,
   ArtifactError,
   InvalidDirectoryError,
+  NixArgsParseError,
+  AttributeFailuresError,
 } from "../errors.js";
-import { runDiffPipeline, setDiffOutput } from "./shared.js";
+import { runDiffPipeline, setDiffOutput, failOnAttributeFailures } from "./shared.js";
 
 // Error type alias for better readability
 export type RunDiffError =
-  | NotPullRequestContextError
+  | UnsupportedEventError
   | MissingAttributesError
   | AttributeParseError
   | InvalidDirectoryError
+  | NixArgsParseError
   | GitWorktreeError
   | NixPathInfoError
   | NixBuildError
   | NixDixError
+  | NixEvalError
+  | NixTimeoutError
+  | GitHubApiError
   | ArtifactError
+  | AttributeFailuresError
   | ConfigError;
 
 export const runDiff: Effect.Effect<
@@ -42,4 +52,7 @@ export const runDiff: Effect.Effect<
 
   // Upload artifact with first attribute's displayName
   yield* artifactService.uploadDiffResults(results, config.attributes[0].displayName);
+
+  // Upload first so comment-only mode can report the failures, then fail this job
+  yield* failOnAttributeFailures(results);
 });
@@ -1,20 +1,49 @@
+import * as fs from "fs";
 import * as nodePath from "path";
-import { Effect, Option, Scope } from "effect";
+import { Duration, Effect, Either, Option, Ref, Scope } from "effect";
 import type { ConfigError } from "effect/ConfigError";
 import { GitService, NixService, GitHubService, ArtifactService } from "../services/index.js";
-import { NixOutputConfig, DiffResult } from "../schemas.js";
+import { currentNixInvocation } from "../services/nix.js";
+import { formatDuration } from "../services/github.js";
+import {
+  NixOutputConfig,
+  DiffResult,
+  DiffBackend,
+  FlakeInputChange,
+  type DixReport,
+} from "../schemas.js";
+import { diffFlakeLocks } from "../services/flake-lock.js";
+import { computeSizeBreakdown } from "../services/closure-size.js";
+import { findAddedPackagePaths } from "../services/why-depends.js";
+import { findDuplicateVersions } from "../services/duplicates.js";
+import { diffWarnings } from "../services/warnings.js";
+import type { AnalysisOptions, EvalJob, Evaluator } from "../types.js";
+import {
+  expandDisplayName,
+  formatPackageList,
+  parseDixReport,
+  quoteAttributeName,
+  splitAttributePath,
+  trimNixError,
+} from "../services/utils.js";
 import {
   GitWorktreeError,
   NixPathInfoError,
   NixBuildError,
   NixDixError,
-  NotPullRequestContextError,
+  NixEvalError,
+  NixTimeoutError,
+  UnsupportedEventError,
   GitHubApiError,
   AttributeParseError,
   InvalidCommentStrategyError,
+  FilterParseError,
+  CommentTemplateError,
   InvalidDirectoryError,
+  NixArgsParseError,
   MissingAttributesError,
   ArtifactError,
+  AttributeFailuresError,
 } from "../errors.js";
 import {
   getGithubToken,
@@ -22,33 +51,270 @@ import {
   loadCommentConfig,
   postComment,
   setDiffOutput,
+  failOnAttributeFailures,
 } from "./shared.js";
 
 // Error type aliases for better readability
-type DiffError = NixPathInfoError | NixBuildError | NixDixError;
-type ProcessDiffError = GitWorktreeError | DiffError;
+type DiffError = NixPathInfoError | NixBuildError | NixDixError | NixEvalError | NixTimeoutError;
+type ProcessDiffError = GitWorktreeError | NixEvalError | DiffError;
 export type RunFullError =
-  | NotPullRequestContextError
+  | UnsupportedEventError
   | MissingAttributesError
   | AttributeParseError
   | InvalidCommentStrategyError
+  | FilterParseError
+  | CommentTemplateError
   | InvalidDirectoryError
+  | NixArgsParseError
   | ProcessDiffError
   | GitHubApiError
   | ArtifactError
+  | AttributeFailuresError
   | ConfigError;
 
 type ProcessDiffOptions = {
   attributes: readonly NixOutputConfig[];
   build: boolean;
   directory: string;
+  // Branch or commit to create the base worktree from; results record the resolved commit
   baseRef: string;
-  baseSha: string;
   headSha: string;
   cwd: string;
   runId: string;
+  // Record per-attribute failures in the results instead of aborting the run
+  continueOnError?: boolean;
+  // Default diff backend for attributes that do not set their own
+  backend?: DiffBackend;
+  // Number of attributes evaluated at the same time
+  concurrency?: number;
+  // Evaluate each attribute with nix path-info, or all at once with nix-eval-jobs
+  evaluator?: Evaluator;
+  // Validated nix-args applied to every nix invocation; attributes can add their own
+  nixArgs?: readonly string[];
+  // Compare the flake.lock files of base and PR (defaults to true)
+  flakeInputs?: boolean;
+  analysis?: AnalysisOptions;
 };
 
+const withNixArgs = <A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+  nixArgs: readonly string[] | undefined,
+): Effect.Effect<A, E, R> =>
+  nixArgs === undefined || nixArgs.length === 0
+    ? effect
+    : Effect.locallyWith(effect, currentNixInvocation, (settings) => ({
+        ...settings,
+        extraArgs: [...(settings.extraArgs ?? []), ...nixArgs],
+      }));
+
+// Collect the evaluation warnings of an effect. The eval cache skips evaluation,
+// and with it the warnings, for attributes that were evaluated before.
+const collectWarnings = <A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+  warnings: Ref.Ref<readonly string[]>,
+): Effect.Effect<A, E, R> =>
+  Effect.locallyWith(effect, currentNixInvocation, (settings) => ({
+    ...settings,
+    warnings,
+    extraArgs: [...(settings.extraArgs ?? []), "--option", "eval-cache", "false"],
+  }));
+
+const failureStatus = {
+  NixEvalError: "eval-failed",
+  NixPathInfoError: "eval-failed",
+  NixBuildError: "build-failed",
+  NixDixError: "dix-failed",
+  NixTimeoutError: "timed-out",
+} as const;
+
+// Convert a failed comparison into a result so the remaining attributes still get reported
+const toFailedResult = (
+  config: NixOutputConfig,
+  error: DiffError,
+  baseSha: string,
+  headSha: string,
+): Effect.Effect<DiffResult> =>
+  Effect.gen(function* () {
+    yield* Effect.logError(`Failed to process ${config.displayName}: ${error._tag}`);
+    return {
+      displayName: config.displayName,
+      attributePath: config.attribute,
+      baseRef: baseSha,
+      prRef: headSha,
+      diff: "",
+      status: failureStatus[error._tag],
+      error: trimNixError(error.message),
+    };
+  });
+
+// Resolve the store path of attribute in flakeRef, or None when the flake does not have it.
+// The existence check only runs after path-info/build fails, so the common case costs no
+// extra evaluation.
+const resolveNixPath = (
+  flakeRef: string,
+  attribute: string,
+  build: boolean,
+): Effect.Effect<Option.Option<string>, DiffError, NixService> =>
+  Effect.gen(function* () {
+    const nix = yield* NixService;
+
+    return yield* nix.getNixPath(`${flakeRef}#${attribute}`, build).pipe(
+      Effect.map(Option.some),
+      Effect.catchTags({
+        NixPathInfoError: (e) => ifAttributeMissing(flakeRef, attribute, e),
+        NixBuildError: (e) => ifAttributeMissing(flakeRef, attribute, e),
+      }),
+    );
+  });
+
+type PathResolver = (
+  flakeRef: string,
+  attribute: string,
+  build: boolean,
+) => Effect.Effect<Option.Option<string>, DiffError, NixService>;
+
+// Resolve paths from a nix-eval-jobs batch instead of evaluating each attribute again.
+// In build mode the main output of the evaluated derivation is built.
+const batchPathResolver =
+  (jobsByFlake: ReadonlyMap<string, ReadonlyMap<string, EvalJob>>): PathResolver =>
+  (flakeRef, attribute, build) =>
+    Effect.gen(function* () {
+      const nix = yield* NixService;
+      const job = jobsByFlake.get(flakeRef)?.get(attribute) ?? {
+        error: "nix-eval-jobs returned no result",
+      };
+
+      if ("error" in job) {
+        return yield* ifAttributeMissing(
+          flakeRef,
+          attribute,
+          new NixEvalError({ flakeRef: `${flakeRef}#${attribute}`, message: job.error }),
+        );
+      }
+      if (!build) {
+        return Option.some(job.drvPath);
+      }
+      const output = "out" in job.outputs ? "out" : (Object.keys(job.outputs)[0] ?? "out");
+      return Option.some(yield* nix.getNixPath(`${job.drvPath}^${output}`, true));
+    });
+
+const ifAttributeMissing = <E>(
+  flakeRef: string,
+  attribute: string,
+  error: E,
+): Effect.Effect<Option.Option<string>, E | NixEvalError, NixService> =>
+  Effect.gen(function* () {
+    const nix = yield* NixService;
+    const exists = yield* nix.hasAttribute(flakeRef, attribute);
+    return exists ? yield* Effect.fail(error) : Option.none();
+  });
+
+// Cap on why-depends queries per attribute; a large update can add hundreds of packages
+const maxWhyDepends = 20;
+
+// Trace the packages dix reports as added back to the PR output. Only the first
+// maxWhyDepends are queried; the rest are counted so the comment can say so.
+const explainAddedPackages = (
+  prPath: string,
+  report: DixReport,
+): Effect.Effect<Partial<DiffResult>, never, NixService> =>
+  Effect.gen(function* () {
+    const nix = yield* NixService;
+    const names = report.entries
+      .filter((entry) => entry.section === "added")
+      .map((entry) => entry.name);
+    if (names.length === 0) {
+      return { whyDepends: [] };
+    }
+
+    const closure = yield* Effect.option(
+      nix
+        .getClosurePaths(prPath)
+        .pipe(Effect.tapError((e) => Effect.logWarning(`why-depends failed: ${e.message}`))),
+    );
+    if (Option.isNone(closure)) {
+      return {};
+    }
+    // The output itself is the start of every chain, not something to explain
+    const added = findAddedPackagePaths(
+      names,
+      closure.value.filter((path) => path !== prPath),
+    );
+
+    // A package whose chain cannot be resolved is left out rather than failing the rest
+    const chains = yield* Effect.forEach(added.slice(0, maxWhyDepends), ({ name, path }) =>
+      nix.whyDepends(prPath, path).pipe(
+        Effect.map((chain) => ({ name, chain })),
+        Effect.option,
+      ),
+    );
+    return {
+      whyDepends: chains.flatMap((chain) => (Option.isSome(chain) ? [chain.value] : [])),
+      ...(added.length > maxWhyDepends ? { whyDependsOmitted: added.length - maxWhyDepends } : {}),
+    };
+  });
+
+// Optional analyses of the resolved paths. They only add information to the report,
+// so failures are logged and the analysis is left out.
+const analyzePaths = (
+  basePath: Option.Option<string>,
+  prPath: Option.Option<string>,
+  build: boolean,
+  analysis: AnalysisOptions,
+): Effect.Effect<Partial<DiffResult>, never, NixService> =>
+  Effect.gen(function* () {
+    const nix = yield* NixService;
+    const extras: { -readonly [K in keyof DiffResult]?: DiffResult[K] } = {};
+
+    if (analysis.rebuildEstimate && !build && Option.isSome(prPath)) {
+      const rebuild = yield* Effect.option(
+        nix
+          .dryRunBuild(prPath.value)
+          .pipe(Effect.tapError((e) => Effect.logWarning(`Rebuild estimate failed: ${e.message}`))),
+      );
+      if (Option.isSome(rebuild)) {
+        extras.rebuild = rebuild.value;
+      }
+    }
+
+    // Closure sizes only mean something for realised outputs
+    if (analysis.sizeBreakdown && build && Option.isSome(basePath) && Option.isSome(prPath)) {
+      const sizes = yield* Effect.option(
+        Effect.all({
+          base: nix.getClosureSizes(basePath.value),
+          pr: nix.getClosureSizes(prPath.value),
+        }).pipe(
+          Effect.tapError((e) => Effect.logWarning(`Closure size breakdown failed: ${e.message}`)),
+        ),
+      );
+      if (Option.isSome(sizes)) {
+        extras.sizeBreakdown = computeSizeBreakdown(
+          sizes.value.base,
+          sizes.value.pr,
+          analysis.sizeBreakdown,
+        );
+      }
+    }
+
+    if (analysis.duplicateVersions && Option.isSome(basePath) && Option.isSome(prPath)) {
+      const closures = yield* Effect.option(
+        Effect.all({
+          base: nix.getClosurePaths(basePath.value),
+          pr: nix.getClosurePaths(prPath.value),
+        }).pipe(
+          Effect.tapError((e) =>
+            Effect.logWarning(`Duplicate version detection failed: ${e.message}`),
+          ),
+        ),
+      );
+      if (Option.isSome(closures)) {
+        extras.duplicates = findDuplicateVersions(closures.value.base, closures.value.pr);
+      }
+    }
+
+    return extras;
+  });
+
 // Service dependency is now hidden - retrieved from context inside Effect.gen
 const processNixOutput = (
   config: NixOutputConfig,
@@ -56,8 +322,11 @@ const processNixOutput = (
   prFlakeRef: string,
   baseSha: string,
   headSha: string,
+  resolvePath: PathResolver,
   build: boolean,
   worktreePath: string,
+  backend: DiffBackend,
+  analysis: AnalysisOptions,
 ): Effect.Effect<DiffResult, DiffError, NixService> =>
   Effect.gen(function* () {
     const nix = yield* NixService;
@@ -66,42 +335,258 @@ const processNixOutput = (
       `Processing ${config.displayName}: ${baseFlakeRef}#${config.attribute} vs ${prFlakeRef}#${config.attribute}`,
     );
 
-    // Run sequentially to avoid Nix SQLite database lock contention
+    const baseWarnings = yield* Ref.make<readonly string[]>([]);
+    const prWarnings = yield* Ref.make<readonly string[]>([]);
+    const resolve = (flakeRef: string, warnings: Ref.Ref<readonly string[]>) =>
+      analysis.evalWarnings
+        ? collectWarnings(resolvePath(flakeRef, config.attribute, build), warnings)
+        : resolvePath(flakeRef, config.attribute, build);
+
+    // Base and PR of one attribute are resolved one after the other; concurrency comes
+    // from running attributes on several workers
     const { basePath, prPath } = yield* Effect.all({
-      basePath: nix.getNixPath(`${baseFlakeRef}#${config.attribute}`, build),
-      prPath: nix.getNixPath(`${prFlakeRef}#${config.attribute}`, build),
+      basePath: resolve(baseFlakeRef, baseWarnings),
+      prPath: resolve(prFlakeRef, prWarnings),
     });
 
-    yield* Effect.logInfo(`Base path: ${basePath}`);
-    yield* Effect.logInfo(`PR path: ${prPath}`);
-
-    const diff = yield* nix.getDixDiff(basePath, prPath, worktreePath);
-
-    return {
+    const result = {
       displayName: config.displayName,
       attributePath: config.attribute,
       baseRef: baseSha,
       prRef: headSha,
-      diff,
+      backend,
+      ...(analysis.evalWarnings
+        ? { evalWarnings: diffWarnings(yield* Ref.get(baseWarnings), yield* Ref.get(prWarnings)) }
+        : {}),
+      ...(yield* analyzePaths(basePath, prPath, build, analysis)),
     };
+
+    if (Option.isSome(basePath) && Option.isSome(prPath)) {
+      yield* Effect.logInfo(`Base path: ${basePath.value}`);
+      yield* Effect.logInfo(`PR path: ${prPath.value}`);
+
+      // Other backends print noise for identical paths; dix reports them itself
+      const diff =
+        backend !== "dix" && basePath.value === prPath.value
+          ? ""
+          : yield* nix.getDiff(backend, basePath.value, prPath.value, worktreePath);
+      const report = backend === "dix" ? parseDixReport(diff) : undefined;
+      // Added packages are taken from the dix report, so other backends explain none
+      const explained =
+        analysis.whyDepends && build && report
+          ? yield* explainAddedPackages(prPath.value, report)
+          : {};
+      return {
+        ...result,
+        ...explained,
+        diff,
+        report,
+        change: "changed" as const,
+        status: "ok" as const,
+      };
+    }
+
+    // Attribute exists on one side only: list the full closure of the side that has it
+    if (Option.isSome(prPath)) {
+      yield* Effect.logInfo(`${config.attribute} is new in PR: ${prPath.value}`);
+      const closure = yield* nix.getClosurePaths(prPath.value);
+      const diff = formatPackageList(prPath.value, closure, "added");
+      return {
+        ...result,
+        diff,
+        report: parseDixReport(diff),
+        change: "added" as const,
+        status: "ok" as const,
+      };
+    }
+
+    if (Option.isSome(basePath)) {
+      yield* Effect.logInfo(`${config.attribute} is removed in PR: ${basePath.value}`);
+      const closure = yield* nix.getClosurePaths(basePath.value);
+      const diff = formatPackageList(basePath.value, closure, "removed");
+      return {
+        ...result,
+        diff,
+        report: parseDixReport(diff),
+        change: "removed" as const,
+        status: "ok" as const,
+      };
+    }
+
+    return yield* Effect.fail(
+      new NixPathInfoError({
+        flakeRef: `${prFlakeRef}#${config.attribute}`,
+        message: "attribute does not exist on either base or PR",
+      }),
+    );
   });
 
-export const processDiffResults = (
-  options: ProcessDiffOptions,
-): Effect.Effect<readonly DiffResult[], ProcessDiffError, GitService | NixService | Scope.Scope> =>
+// List attribute names under prefix on both flakes. A prefix that only exists on
+// one side still contributes its names, so hosts added or removed by the PR are found.
+const listAttributeNames = (
+  prefix: string,
+  baseFlakeRef: string,
+  prFlakeRef: string,
+): Effect.Effect<readonly string[], NixEvalError, NixService> =>
   Effect.gen(function* () {
-    const git = yield* GitService;
     const nix = yield* NixService;
 
-    const worktree = yield* git.createWorktree(options.baseRef, options.runId);
+    // Run sequentially to avoid Nix SQLite database lock contention
+    const { baseNames, prNames } = yield* Effect.all({
+      baseNames: Effect.either(nix.getAttributeNames(`${baseFlakeRef}#${prefix}`)),
+      prNames: Effect.either(nix.getAttributeNames(`${prFlakeRef}#${prefix}`)),
+    });
+
+    if (Either.isLeft(baseNames) && Either.isLeft(prNames)) {
+      return yield* Effect.fail(prNames.left);
+    }
+
+    const names = [
+      ...Either.getOrElse(baseNames, () => []),
+      ...Either.getOrElse(prNames, () => []),
+    ];
+    return [...new Set(names)].sort();
+  });
+
+type AttributeMatch = { segments: readonly string[]; captures: readonly string[] };
+
+// Expand '*' segments into one NixOutputConfig per matched attribute,
+// templating $1, $2, ... in the displayName with the matched names
+const expandAttribute = (
+  config: NixOutputConfig,
+  baseFlakeRef: string,
+  prFlakeRef: string,
+): Effect.Effect<readonly NixOutputConfig[], NixEvalError, NixService> =>
+  Effect.gen(function* () {
+    if (!config.attribute.includes("*")) {
+      return [config];
+    }
+
+    let matches: readonly AttributeMatch[] = [{ segments: [], captures: [] }];
+    for (const segment of config.attribute.split(".")) {
+      if (segment !== "*") {
+        matches = matches.map((m) => ({ ...m, segments: [...m.segments, segment] }));
+        continue;
+      }
+
+      const expanded = yield* Effect.forEach(matches, (m) =>
+        listAttributeNames(m.segments.join("."), baseFlakeRef, prFlakeRef).pipe(
+          Effect.map((names) =>
+            names.map((name) => ({
+              segments: [...m.segments, quoteAttributeName(name)],
+              captures: [...m.captures, name],
+            })),
+          ),
+        ),
+      );
+      matches = expanded.flat();
+    }
+
+    if (matches.length === 0) {
+      yield* Effect.logWarning(`${config.attribute} did not match any attributes`);
+    } else {
+      yield* Effect.logInfo(`Expanded ${config.attribute} to ${matches.length} attribute(s)`);
+    }
+
+    return matches.map((m) => ({
+      ...config,
+      displayName: expandDisplayName(config.displayName, m.captures),
+      attribute: m.segments.join("."),
+    }));
+  });
+
+// Name under which a wildcard attribute that could not be expanded is reported: the
+// configured display name unless it has placeholders, which have nothing to fill them,
+// else the attribute path up to the first wildcard
+const unexpandedDisplayName = (config: NixOutputConfig): string => {
+  if (!/\$[1-9]/.test(config.displayName)) {
+    return config.displayName;
+  }
+  const segments = splitAttributePath(config.attribute);
+  const prefix = segments.slice(0, segments.indexOf("*")).join(".");
+  return prefix === "" ? config.attribute : prefix;
+};
+
+export const expandAttributes = (
+  attributes: readonly NixOutputConfig[],
+  baseFlakeRef: string,
+  prFlakeRef: string,
+): Effect.Effect<readonly NixOutputConfig[], NixEvalError, NixService> =>
+  Effect.forEach(attributes, (config) => expandAttribute(config, baseFlakeRef, prFlakeRef)).pipe(
+    Effect.map((expanded) => expanded.flat()),
+  );
+
+// Run f for each item on up to `concurrency` workers, preserving the order of results.
+// Workers share the Nix store and caches: Nix waits for SQLite locks held by another
+// process instead of failing, and the fetcher cache filled by prefetching is reused.
+// Separate eval stores (--eval-store) are not used, since the derivations of drv mode
+// must be in the main store for `nix path-info`, and every eval store would copy the
+// flake sources again.
+const forEachOnWorkers = <A, B, E, R>(
+  items: readonly A[],
+  concurrency: number,
+  f: (item: A) => Effect.Effect<B, E, R>,
+): Effect.Effect<B[], E, R> =>
+  Effect.gen(function* () {
+    const workers = Math.min(concurrency, items.length);
+    if (workers > 1) {
+      yield* Effect.logInfo(`Evaluating ${items.length} attribute(s) on ${workers} workers`);
+    }
+    return yield* Effect.forEach(items, f, { concurrency: Math.max(workers, 1) });
+  });
+
+// An attribute after wildcard expansion, or the configured one if expansion failed
+type ExpandedAttribute = {
+  config: NixOutputConfig;
+  failure?: NixEvalError;
+};
+
+// An expanded attribute together with the flake it is evaluated in
+type AttributeTask = {
+  config: NixOutputConfig;
+  baseFlakeRef: string;
+  prFlakeRef: string;
+  resolvePath: PathResolver;
+  inputChanges: readonly FlakeInputChange[];
+  // Set with continue-on-error when expanding or batch-evaluating the attribute failed
+  failure?: NixEvalError;
+};
+
+const readFlakeLock = (directory: string): string | undefined => {
+  const lockPath = nodePath.join(directory, "flake.lock");
+  return fs.existsSync(lockPath) ? fs.readFileSync(lockPath, "utf8") : undefined;
+};
+
+// Inputs whose locked revision differs between the base and PR flake.lock.
+// An unreadable lock file only costs the summary, not the diff.
+const compareFlakeLocks = (
+  baseDirectory: string,
+  prDirectory: string,
+): Effect.Effect<readonly FlakeInputChange[]> =>
+  Effect.try(() => diffFlakeLocks(readFlakeLock(baseDirectory), readFlakeLock(prDirectory))).pipe(
+    Effect.catchAll((error) =>
+      Effect.logWarning(`Failed to compare flake.lock files: ${error}`).pipe(Effect.as([])),
+    ),
+  );
+
+// Prefetch, expand and (with nix-eval-jobs) batch-evaluate the attributes of one flake.
+// Returns the expanded tasks of each configured attribute, in the order given.
+const prepareFlake = (
+  directory: string,
+  attributes: readonly NixOutputConfig[],
+  worktreePath: string,
+  options: ProcessDiffOptions,
+): Effect.Effect<readonly (readonly AttributeTask[])[], NixEvalError, NixService> =>
+  Effect.gen(function* () {
+    const nix = yield* NixService;
 
-    const relativePath = nodePath.relative(options.cwd, options.directory);
+    const relativePath = nodePath.relative(options.cwd, directory);
     // Use path: to avoid git history requirements
     const baseFlakeRef =
       relativePath === "" || relativePath === "."
-        ? `path:${worktree.path}`
-        : `path:${worktree.path}?dir=${relativePath}`;
-    const prFlakeRef = options.directory;
+        ? `path:${worktreePath}`
+        : `path:${worktreePath}?dir=${relativePath}`;
+    const prFlakeRef = directory;
 
     yield* Effect.all(
       [nix.prefetchFlakeInputs(baseFlakeRef), nix.prefetchFlakeInputs(prFlakeRef)],
@@ -110,19 +595,166 @@ export const processDiffResults = (
       },
     );
 
-    return yield* Effect.forEach(options.attributes, (config) =>
-      processNixOutput(
-        config,
-        baseFlakeRef,
-        prFlakeRef,
-        options.baseSha,
-        options.headSha,
-        options.build,
-        worktree.path,
-      ),
+    // With continue-on-error, a wildcard that cannot be expanded becomes a failure of the
+    // configured attribute instead of aborting the run
+    const expanded = yield* Effect.forEach(attributes, (config) => {
+      const configs = expandAttribute(config, baseFlakeRef, prFlakeRef).pipe(
+        Effect.map((configs) =>
+          configs.map((expandedConfig): ExpandedAttribute => ({ config: expandedConfig })),
+        ),
+      );
+      return options.continueOnError
+        ? Effect.catchAll(configs, (failure) =>
+            Effect.succeed([
+              { config: { ...config, displayName: unexpandedDisplayName(config) }, failure },
+            ]),
+          )
+        : configs;
+    });
+
+    let resolvePath: PathResolver = resolveNixPath;
+    let batchFailure: NixEvalError | undefined;
+    if (options.evaluator === "nix-eval-jobs") {
+      const names = expanded
+        .flat()
+        .filter((task) => task.failure === undefined)
+        .map((task) => task.config.attribute);
+      const workers = options.concurrency ?? 1;
+      // One batch per flake, run sequentially; nix-eval-jobs parallelizes internally
+      const batch = yield* Effect.either(
+        Effect.all([
+          nix.evaluateJobs(baseFlakeRef, names, worktreePath, workers),
+          nix.evaluateJobs(prFlakeRef, names, worktreePath, workers),
+        ]),
+      );
+      if (Either.isLeft(batch)) {
+        if (!options.continueOnError) {
+          return yield* Effect.fail(batch.left);
+        }
+        // Every attribute of the flake depends on the failed batch
+        batchFailure = batch.left;
+      } else {
+        const [baseJobs, prJobs] = batch.right;
+        yield* Effect.logInfo(`Evaluated ${names.length} attribute(s) with nix-eval-jobs`);
+        resolvePath = batchPathResolver(
+          new Map([
+            [baseFlakeRef, baseJobs],
+            [prFlakeRef, prJobs],
+          ]),
+        );
+      }
+    }
+
+    const inputChanges =
+      options.flakeInputs === false
+        ? []
+        : yield* compareFlakeLocks(nodePath.join(worktreePath, relativePath), directory);
+
+    return expanded.map((tasks) =>
+      tasks.map((task) => {
+        const failure = task.failure ?? batchFailure;
+        return {
+          config: task.config,
+          baseFlakeRef,
+          prFlakeRef,
+          resolvePath,
+          inputChanges,
+          ...(failure ? { failure } : {}),
+        };
+      }),
     );
   });
 
+export const processDiffResults = (
+  options: ProcessDiffOptions,
+): Effect.Effect<readonly DiffResult[], ProcessDiffError, GitService | NixService | Scope.Scope> =>
+  withNixArgs(
+    Effect.gen(function* () {
+      const git = yield* GitService;
+
+      // The worktree holds the whole base checkout, so flakes in different directories share it
+      const worktree = yield* git.createWorktree(options.baseRef, options.runId);
+
+      const directoryOf = (config: NixOutputConfig) =>
+        nodePath.resolve(options.cwd, config.directory ?? options.directory);
+      const tasksByAttribute: (readonly AttributeTask[])[] = [];
+      for (const directory of new Set(options.attributes.map(directoryOf))) {
+        const indices = options.attributes.flatMap((config, i) =>
+          directoryOf(config) === directory ? [i] : [],
+        );
+        const prepared = yield* prepareFlake(
+          directory,
+          indices.map((i) => options.attributes[i]),
+          worktree.path,
+          options,
+        );
+        indices.forEach((attributeIndex, k) => (tasksByAttribute[attributeIndex] = prepared[k]));
+      }
+
+      // nix-eval-jobs evaluates all attributes in one batch, so there are no warnings to
+      // attribute to them; the field is left out rather than reported as empty
+      const analysis =
+        options.evaluator === "nix-eval-jobs"
+          ? { ...options.analysis, evalWarnings: false }
+          : (options.analysis ?? {});
+
+      // Batch-evaluated attributes only need the diff step, so they run one at a time
+      return yield* forEachOnWorkers(
+        tasksByAttribute.flat(),
+        options.evaluator === "nix-eval-jobs" ? 1 : (options.concurrency ?? 1),
+        ({ config, baseFlakeRef, prFlakeRef, resolvePath, inputChanges, failure }) => {
+          const result: Effect.Effect<DiffResult, DiffError, NixService> = failure
+            ? Effect.fail(failure)
+            : withNixArgs(
+                processNixOutput(
+                  config,
+                  baseFlakeRef,
+                  prFlakeRef,
+                  worktree.sha,
+                  options.headSha,
+                  resolvePath,
+                  config.build ?? options.build,
+                  worktree.path,
+                  config.backend ?? options.backend ?? "dix",
+                  analysis,
+                ),
+                config.nixArgs,
+              );
+          const bounded =
+            config.timeout === undefined
+              ? result
+              : Effect.timeoutFail(result, {
+                  duration: Duration.seconds(config.timeout),
+                  onTimeout: () =>
+                    new NixTimeoutError({
+                      attribute: config.displayName,
+                      message: `timed out after ${config.timeout}s`,
+                    }),
+                });
+          const handled = options.continueOnError
+            ? Effect.catchAll(bounded, (error) =>
+                toFailedResult(config, error, worktree.sha, options.headSha),
+              )
+            : bounded;
+          return handled.pipe(
+            Effect.timed,
+            Effect.tap(([duration]) =>
+              Effect.logInfo(
+                `Processed ${config.displayName} in ${formatDuration(Duration.toMillis(duration))}`,
+              ),
+            ),
+            Effect.map(([duration, diffResult]) => ({
+              ...diffResult,
+              ...(inputChanges.length > 0 ? { inputChanges } : {}),
+              durationMs: Duration.toMillis(duration),
+            })),
+          );
+        },
+      );
+    }),
+    options.nixArgs,
+  );
+
 export const runFull: Effect.Effect<
   void,
   RunFullError,
@@ -146,10 +778,18 @@ export const runFull: Effect.Effect<
     runId: config.runId,
     skipNoChange: commentConfig.skipNoChange,
     commentStrategy: commentConfig.commentStrategy,
+    filters: commentConfig.filters,
+    outputTarget: commentConfig.outputTarget,
+    commentFormat: commentConfig.commentFormat,
+    packageMatrix: commentConfig.packageMatrix,
+    commentTemplate: commentConfig.commentTemplate,
     token,
     showArtifactLinkWhenTruncated: Option.isSome(config.runIdOption),
   });
 
   // Set GitHub Actions output
   setDiffOutput(results);
+
+  // Report first, then fail if any attribute failed under continue-on-error
+  yield* failOnAttributeFailures(results);
 });
@@ -1,13 +1,25 @@
+import * as fs from "node:fs";
 import * as nodePath from "node:path";
 import { parse as parseYaml } from "yaml";
-import { Effect, Schema } from "effect";
-import { NixOutputConfig, NixOutputConfigArray } from "../schemas.js";
+import { Effect, Option, Schema } from "effect";
+import {
+  ChangeFilterRule,
+  ChangeFilterRuleArray,
+  NixArgs,
+  NixOutputConfig,
+  NixOutputConfigArray,
+} from "../schemas.js";
 import {
   AttributeParseError,
+  CommentTemplateError,
+  FilterParseError,
   InvalidCommentStrategyError,
   InvalidDirectoryError,
+  NixArgsParseError,
 } from "../errors.js";
-import type { CommentStrategy } from "../types.js";
+import { splitNixArgs } from "../services/utils.js";
+import { parseTemplate, type TemplateNode } from "../services/template.js";
+import type { CommentStrategy, Evaluator } from "../types.js";
 
 export { runFull } from "./full.js";
 export { runDiff } from "./diff.js";
@@ -41,6 +53,168 @@ export const parseAttributes = (
     );
   });
 
+export const parseNixArgs = (input: string): Effect.Effect<NixArgs, NixArgsParseError> =>
+  Effect.gen(function* () {
+    const args = yield* Effect.try({
+      try: () => splitNixArgs(input),
+      catch: (e) =>
+        new NixArgsParseError({
+          message: `Invalid nix-args: ${e instanceof Error ? e.message : String(e)}`,
+        }),
+    });
+
+    return yield* Schema.decodeUnknown(NixArgs)(args).pipe(
+      Effect.mapError(
+        (e) =>
+          new NixArgsParseError({
+            message: `Invalid nix-args: ${e.message}`,
+          }),
+      ),
+    );
+  });
+
+// nix-eval-jobs evaluates every attribute of a flake in one batch from a locked
+// builtins.getFlake reference. Settings, --store, --system and --impure are handed to it,
+// but an input override cannot reach getFlake and per-attribute arguments cannot apply to
+// one attribute of the batch, so they are rejected instead of silently diffing the wrong
+// derivations.
+export const checkNixArgsForEvaluator = (
+  evaluator: Evaluator,
+  nixArgs: NixArgs,
+  attributes: readonly NixOutputConfig[],
+): Effect.Effect<void, NixArgsParseError> => {
+  if (evaluator !== "nix-eval-jobs") {
+    return Effect.void;
+  }
+  if (nixArgs.includes("--override-input")) {
+    return Effect.fail(
+      new NixArgsParseError({
+        message: "Invalid nix-args: --override-input is not supported with evaluator nix-eval-jobs",
+      }),
+    );
+  }
+  const withArgs = attributes.filter((config) => (config.nixArgs ?? []).length > 0);
+  return withArgs.length === 0
+    ? Effect.void
+    : Effect.fail(
+        new NixArgsParseError({
+          message: `Invalid nix-args: per-attribute nixArgs are not supported with evaluator nix-eval-jobs (${withArgs.map((config) => config.displayName).join(", ")})`,
+        }),
+      );
+};
+
+export const parseFilterRules = (
+  input: string,
+): Effect.Effect<readonly ChangeFilterRule[], FilterParseError> =>
+  Effect.gen(function* () {
+    const parsed = yield* Effect.try({
+      try: () => parseYaml(input) as unknown,
+      catch: (e) =>
+        new FilterParseError({
+          message: `YAML parse error: ${e instanceof Error ? e.message : String(e)}`,
+        }),
+    });
+
+    // An empty input disables filtering
+    if (parsed === null || parsed === undefined) {
+      return [];
+    }
+
+    if (!Array.isArray(parsed)) {
+      return yield* Effect.fail(new FilterParseError({ message: "filters must be a YAML array" }));
+    }
+
+    return yield* Schema.decodeUnknown(ChangeFilterRuleArray)(parsed).pipe(
+      Effect.mapError(
+        (e) =>
+          new FilterParseError({
+            message: `Invalid filters format: ${e.message}`,
+          }),
+      ),
+    );
+  });
+
+// comment-template holds the template itself, comment-template-file the path of a
+// template file in the workspace. At most one of them may be set.
+export const loadCommentTemplate = (
+  inline: string,
+  file: string,
+  workspaceRoot: string,
+): Effect.Effect<Option.Option<readonly TemplateNode[]>, CommentTemplateError> =>
+  Effect.gen(function* () {
+    if (inline.trim() !== "" && file.trim() !== "") {
+      return yield* Effect.fail(
+        new CommentTemplateError({
+          message: "Set either comment-template or comment-template-file, not both",
+        }),
+      );
+    }
+    if (inline.trim() === "" && file.trim() === "") {
+      return Option.none();
+    }
+
+    const source =
+      inline.trim() !== "" ? inline : yield* readTemplateFile(file.trim(), workspaceRoot);
+
+    const template = yield* Effect.try({
+      try: () => parseTemplate(source),
+      catch: (e) =>
+        new CommentTemplateError({
+          message: `Invalid comment-template: ${e instanceof Error ? e.message : String(e)}`,
+        }),
+    });
+    return Option.some(template);
+  });
+
+// The file comes from the PR checkout, so its contents are untrusted and end up in a
+// public comment. Symlinks are refused and the real path is checked again, so a PR cannot
+// point the template at runner files such as /proc/self/environ.
+const readTemplateFile = (
+  path: string,
+  workspaceRoot: string,
+): Effect.Effect<string, CommentTemplateError> =>
+  Effect.gen(function* () {
+    const outsideWorkspace = (resolvedPath: string) =>
+      new CommentTemplateError({
+        message: `comment-template-file must be within the workspace. Got: ${path} (resolved to ${resolvedPath})`,
+      });
+    const readFailed = (e: unknown) =>
+      new CommentTemplateError({
+        message: `Failed to read comment-template-file ${path}: ${e instanceof Error ? e.message : String(e)}`,
+      });
+
+    const resolvedPath = nodePath.resolve(workspaceRoot, path);
+    if (!resolvedPath.startsWith(nodePath.resolve(workspaceRoot) + nodePath.sep)) {
+      return yield* Effect.fail(outsideWorkspace(resolvedPath));
+    }
+
+    const stats = yield* Effect.try({ try: () => fs.lstatSync(resolvedPath), catch: readFailed });
+    if (stats.isSymbolicLink()) {
+      return yield* Effect.fail(
+        new CommentTemplateError({
+          message: `comment-template-file must not be a symlink. Got: ${path}`,
+        }),
+      );
+    }
+
+    // Directories along the path may still be symlinks
+    const { realPath, realWorkspace } = yield* Effect.try({
+      try: () => ({
+        realPath: fs.realpathSync(resolvedPath),
+        realWorkspace: fs.realpathSync(workspaceRoot),
+      }),
+      catch: readFailed,
+    });
+    if (!realPath.startsWith(realWorkspace + nodePath.sep)) {
+      return yield* Effect.fail(outsideWorkspace(realPath));
+    }
+
+    return yield* Effect.try({
+      try: () => fs.readFileSync(realPath, "utf8"),
+      catch: readFailed,
+    });
+  });
+
 const CommentStrategySchema = Schema.Literal("create", "update");
 
 export const parseCommentStrategy = (
@@ -3,22 +3,47 @@ import * as crypto from "crypto";
 import { Effect, Option, Redacted } from "effect";
 import type { ConfigError } from "effect/ConfigError";
 import { GitService, NixService, GitHubService } from "../services/index.js";
-import { checkIfAnyDiffTruncated } from "../services/github.js";
-import type { NixOutputConfig, DiffResult } from "../schemas.js";
+import { checkIfAnyDiffTruncated, formatJobSummary } from "../services/github.js";
+import { applyChangeFilters, isFailedResult } from "../services/filter.js";
+import { collectInputChanges } from "../services/flake-lock.js";
+import type { TemplateNode } from "../services/template.js";
+import type { NixOutputConfig, DiffResult, DiffBackend, ChangeFilterRule } from "../schemas.js";
 import {
   MissingAttributesError,
-  NotPullRequestContextError,
+  UnsupportedEventError,
   AttributeParseError,
   InvalidDirectoryError,
   GitWorktreeError,
   NixPathInfoError,
   NixBuildError,
   NixDixError,
+  NixEvalError,
+  NixTimeoutError,
   GitHubApiError,
   InvalidCommentStrategyError,
+  AttributeFailuresError,
+  FilterParseError,
+  CommentTemplateError,
+  NixArgsParseError,
 } from "../errors.js";
-import type { CommentStrategy } from "../types.js";
-import { parseAttributes, validateDirectory, parseCommentStrategy } from "./index.js";
+import type {
+  AnalysisOptions,
+  BaseStrategy,
+  CommentFormat,
+  CommentStrategy,
+  DiffTarget,
+  Evaluator,
+  OutputTarget,
+} from "../types.js";
+import {
+  parseAttributes,
+  validateDirectory,
+  parseCommentStrategy,
+  parseFilterRules,
+  parseNixArgs,
+  checkNixArgsForEvaluator,
+  loadCommentTemplate,
+} from "./index.js";
 import { ActionConfig } from "../config.js";
 import { processDiffResults } from "./full.js";
 
@@ -57,11 +82,45 @@ export const setDiffOutput = (results: readonly DiffResult[]): void => {
     const diffOutputs = results.map((r) => ({
       displayName: r.displayName,
       diff: r.diff,
+      status: r.status ?? "ok",
+      report: r.report,
+      durationMs: r.durationMs,
+      rebuild: r.rebuild,
+      sizeBreakdown: r.sizeBreakdown,
+      whyDepends: r.whyDepends,
+      whyDependsOmitted: r.whyDependsOmitted,
+      duplicates: r.duplicates,
+      evalWarnings: r.evalWarnings,
     }));
     core.setOutput("diff", JSON.stringify(diffOutputs));
+
+    const estimates = results.flatMap((r) => (r.rebuild ? [r.rebuild] : []));
+    if (estimates.length > 0) {
+      const total = (key: "build" | "downloadBytes") =>
+        estimates.reduce((sum, estimate) => sum + estimate[key], 0);
+      core.setOutput("rebuild-count", String(total("build")));
+      core.setOutput("download-size", String(total("downloadBytes")));
+    }
   }
 };
 
+/**
+ * Fail the action after reporting if any attribute failed under continue-on-error
+ * Used by: runFull, runDiff
+ */
+export const failOnAttributeFailures = (
+  results: readonly DiffResult[],
+): Effect.Effect<void, AttributeFailuresError> => {
+  const failed = results.filter(isFailedResult);
+  return failed.length === 0
+    ? Effect.void
+    : Effect.fail(
+        new AttributeFailuresError({
+          message: `${failed.length} attribute(s) failed: ${failed.map((r) => `${r.displayName} (${r.status})`).join(", ")}`,
+        }),
+      );
+};
+
 // ============================================================
 // Diff pipeline configuration (Phase 3)
 // ============================================================
@@ -73,12 +132,21 @@ export type DiffPipelineConfig = {
   runId: string;
   runIdOption: Option.Option<string>;
   cwd: string;
+  continueOnError: boolean;
+  backend: DiffBackend;
+  baseStrategy: BaseStrategy;
+  concurrency: number;
+  evaluator: Evaluator;
+  nixArgs: readonly string[];
+  flakeInputs: boolean;
+  analysis: AnalysisOptions;
 };
 
 export type LoadDiffPipelineConfigError =
   | MissingAttributesError
   | AttributeParseError
   | InvalidDirectoryError
+  | NixArgsParseError
   | ConfigError;
 
 /**
@@ -94,21 +162,88 @@ export const loadDiffPipelineConfig: Effect.Effect<
   const build = yield* ActionConfig.build;
   const runIdOption = yield* ActionConfig.githubRunId;
   const runId = Option.getOrElse(runIdOption, () => crypto.randomUUID());
+  const continueOnError = yield* ActionConfig.continueOnError;
+  const backend = yield* ActionConfig.diffBackend;
+  const baseStrategy = yield* ActionConfig.baseStrategy;
+  const concurrency = yield* ActionConfig.concurrency;
+  const evaluator = yield* ActionConfig.evaluator;
+  const nixArgs = yield* parseNixArgs(yield* ActionConfig.nixArgs);
+  const flakeInputs = yield* ActionConfig.flakeInputs;
+  const analysis = {
+    rebuildEstimate: yield* ActionConfig.rebuildEstimate,
+    sizeBreakdown: yield* ActionConfig.sizeBreakdown,
+    whyDepends: yield* ActionConfig.whyDepends,
+    duplicateVersions: yield* ActionConfig.duplicateVersions,
+    evalWarnings: yield* ActionConfig.evalWarnings,
+  };
   const cwd = yield* Effect.sync(() => process.cwd());
 
-  const attributes = yield* parseAttributes(attributesInput);
   const directory = yield* validateDirectory(directoryInput, cwd);
+  // Per-attribute directories are relative to the workspace, like the directory input
+  const attributes = yield* Effect.forEach(yield* parseAttributes(attributesInput), (config) =>
+    config.directory === undefined
+      ? Effect.succeed(config)
+      : validateDirectory(config.directory, cwd).pipe(
+          Effect.map((resolved) => ({ ...config, directory: resolved })),
+        ),
+  );
+  yield* checkNixArgsForEvaluator(evaluator, nixArgs, attributes);
 
-  return { attributes, directory, build, runId, runIdOption, cwd };
+  return {
+    attributes,
+    directory,
+    build,
+    runId,
+    runIdOption,
+    cwd,
+    continueOnError,
+    backend,
+    baseStrategy,
+    concurrency,
+    evaluator,
+    nixArgs,
+    flakeInputs,
+    analysis,
+  };
 });
 
 export type RunDiffPipelineError =
   | LoadDiffPipelineConfigError
-  | NotPullRequestContextError
+  | UnsupportedEventError
   | GitWorktreeError
   | NixPathInfoError
   | NixBuildError
-  | NixDixError;
+  | NixDixError
+  | NixEvalError
+  | NixTimeoutError
+  | GitHubApiError;
+
+/**
+ * Pick the base commit to compare against according to base-strategy:
+ * the moving branch tip, the base SHA recorded in the event, or the merge-base of base and head
+ */
+export const resolveBaseRef = (
+  strategy: BaseStrategy,
+  target: DiffTarget,
+): Effect.Effect<string, GitHubApiError | ConfigError, GitHubService> =>
+  Effect.gen(function* () {
+    if (strategy === "tip") {
+      return target.base.ref;
+    }
+    if (strategy === "base-sha") {
+      return target.base.sha;
+    }
+    const githubService = yield* GitHubService;
+    const token = yield* getGithubToken;
+    const mergeBase = yield* githubService.getMergeBase(
+      githubService.createOctokit(token),
+      githubService.getContext(),
+      target.base.sha,
+      target.head.sha,
+    );
+    yield* Effect.logInfo(`Using merge-base ${mergeBase} of ${target.base.ref} and head`);
+    return mergeBase;
+  });
 
 /**
  * Execute diff pipeline and return results
@@ -120,19 +255,26 @@ export const runDiffPipeline: Effect.Effect<
   GitService | NixService | GitHubService
 > = Effect.gen(function* () {
   const githubService = yield* GitHubService;
-  const pr = yield* githubService.getPullRequest();
+  const target = yield* githubService.getDiffTarget();
   const config = yield* loadDiffPipelineConfig;
+  const baseRef = yield* resolveBaseRef(config.baseStrategy, target);
 
   const results = yield* Effect.scoped(
     processDiffResults({
       attributes: config.attributes,
       build: config.build,
       directory: config.directory,
-      baseRef: pr.base.ref,
-      baseSha: pr.base.sha,
-      headSha: pr.head.sha,
+      baseRef,
+      headSha: target.head.sha,
       cwd: config.cwd,
       runId: config.runId,
+      continueOnError: config.continueOnError,
+      backend: config.backend,
+      concurrency: config.concurrency,
+      evaluator: config.evaluator,
+      nixArgs: config.nixArgs,
+      flakeInputs: config.flakeInputs,
+      analysis: config.analysis,
     }),
   );
 
@@ -148,37 +290,113 @@ export type PostCommentParams = {
   runId: string;
   skipNoChange: boolean;
   commentStrategy: CommentStrategy;
+  filters: readonly ChangeFilterRule[];
+  outputTarget: OutputTarget;
+  commentFormat: CommentFormat;
+  packageMatrix: boolean;
+  commentTemplate: Option.Option<readonly TemplateNode[]>;
   token: string;
   showArtifactLinkWhenTruncated: boolean;
 };
 
 /**
- * Post aggregated comment to PR
+ * Post aggregated comment to the PR (commit for pushes, check run for merge groups)
+ * and/or write it to the job summary
  * Used by: runFull, runComment
  */
 export const postComment = (
   params: PostCommentParams,
-): Effect.Effect<void, GitHubApiError | NotPullRequestContextError, GitHubService> =>
+): Effect.Effect<void, GitHubApiError | UnsupportedEventError, GitHubService> =>
   Effect.gen(function* () {
     const githubService = yield* GitHubService;
     const context = githubService.getContext();
-    const pr = yield* githubService.getPullRequest();
 
-    const willTruncate = checkIfAnyDiffTruncated(params.results);
+    if (params.outputTarget === "none") {
+      return yield* Effect.logInfo("Skipping report (output-target is none)");
+    }
+
+    const target = yield* githubService.getDiffTarget();
+
+    // Merge groups always get a job summary alongside the check run
+    if (
+      params.outputTarget === "job-summary" ||
+      params.outputTarget === "both" ||
+      target.event === "merge_group"
+    ) {
+      const { visible, hidden } = applyChangeFilters(params.results, params.filters);
+      const inputChanges = collectInputChanges(params.results);
+      if (params.skipNoChange && visible.length === 0 && inputChanges.length === 0) {
+        yield* Effect.logInfo(
+          "No meaningful differences found. Skipping job summary (skip-no-change is enabled).",
+        );
+      } else {
+        const repoUrl = `https://github.com/${context.repo.owner}/${context.repo.repo}`;
+        yield* githubService.writeJobSummary(
+          formatJobSummary(visible, target.head.sha, {
+            repoUrl,
+            format: params.commentFormat,
+            packageMatrix: params.packageMatrix,
+            hidden,
+            inputChanges,
+          }),
+        );
+      }
+    }
+
+    if (params.outputTarget === "job-summary") {
+      return;
+    }
+
+    const willTruncate = checkIfAnyDiffTruncated(params.results, params.commentFormat);
     const repoUrl = `https://github.com/${context.repo.owner}/${context.repo.repo}`;
     const shouldShowArtifactLink = willTruncate && params.showArtifactLinkWhenTruncated;
 
     // Always pass repoUrl for commit links, runId only when showing artifact link
-    const formatOptions = shouldShowArtifactLink ? { runId: params.runId, repoUrl } : { repoUrl };
-
-    yield* githubService.postAggregatedComment(
-      githubService.createOctokit(params.token),
-      context,
-      pr,
-      params.results,
-      { skipNoChange: params.skipNoChange, commentStrategy: params.commentStrategy },
-      formatOptions,
-    );
+    const layout = {
+      format: params.commentFormat,
+      packageMatrix: params.packageMatrix,
+      template: Option.getOrUndefined(params.commentTemplate),
+      runUrl: params.runId ? `${repoUrl}/actions/runs/${params.runId}` : undefined,
+    };
+    const formatOptions = shouldShowArtifactLink
+      ? { runId: params.runId, repoUrl, ...layout }
+      : { repoUrl, ...layout };
+
+    const octokit = githubService.createOctokit(params.token);
+    const commentOptions = {
+      skipNoChange: params.skipNoChange,
+      commentStrategy: params.commentStrategy,
+      filters: params.filters,
+    };
+
+    if (target.event === "pull_request") {
+      yield* githubService.postAggregatedComment(
+        octokit,
+        context,
+        target,
+        params.results,
+        commentOptions,
+        formatOptions,
+      );
+    } else if (target.event === "push") {
+      yield* githubService.postCommitComment(
+        octokit,
+        context,
+        target.head.sha,
+        params.results,
+        commentOptions,
+        formatOptions,
+      );
+    } else {
+      yield* githubService.createCheckRun(
+        octokit,
+        context,
+        target.head.sha,
+        params.results,
+        commentOptions,
+        formatOptions,
+      );
+    }
   });
 
 // ============================================================
@@ -188,9 +406,18 @@ export const postComment = (
 export type CommentConfig = {
   skipNoChange: boolean;
   commentStrategy: CommentStrategy;
+  filters: readonly ChangeFilterRule[];
+  outputTarget: OutputTarget;
+  commentFormat: CommentFormat;
+  packageMatrix: boolean;
+  commentTemplate: Option.Option<readonly TemplateNode[]>;
 };
 
-export type LoadCommentConfigError = InvalidCommentStrategyError | ConfigError;
+export type LoadCommentConfigError =
+  | InvalidCommentStrategyError
+  | FilterParseError
+  | CommentTemplateError
+  | ConfigError;
 
 /**
  * Load comment-related configuration
@@ -201,7 +428,24 @@ export const loadCommentConfig: Effect.Effect<CommentConfig, LoadCommentConfigEr
     const skipNoChange = yield* ActionConfig.skipNoChange;
     const commentStrategyInput = yield* ActionConfig.commentStrategy;
     const commentStrategy = yield* parseCommentStrategy(commentStrategyInput);
+    const filters = yield* parseFilterRules(yield* ActionConfig.filters);
+    const outputTarget = yield* ActionConfig.outputTarget;
+    const commentFormat = yield* ActionConfig.commentFormat;
+    const packageMatrix = yield* ActionConfig.packageMatrix;
+    const commentTemplate = yield* loadCommentTemplate(
+      yield* ActionConfig.commentTemplate,
+      yield* ActionConfig.commentTemplateFile,
+      process.cwd(),
+    );
 
-    return { skipNoChange, commentStrategy };
+    return {
+      skipNoChange,
+      commentStrategy,
+      filters,
+      outputTarget,
+      commentFormat,
+      packageMatrix,
+      commentTemplate,
+    };
   },
 );
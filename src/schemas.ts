@@ -4,8 +4,12 @@ import { Schema } from "effect";
 // - Must not start with '#' or '.#' (added internally when constructing reference)
 // - Must be a valid Nix attribute path (identifiers separated by dots)
 // - Nix identifiers: start with letter or underscore, followed by alphanumeric, underscore, hyphen, or apostrophe
+// - Any segment except the first may be a '*' wildcard, expanded against both flakes at runtime
 const nixIdentifierPattern = "[a-zA-Z_][a-zA-Z0-9_'-]*";
-const attributePathPattern = new RegExp(`^${nixIdentifierPattern}(\\.${nixIdentifierPattern})*$`);
+const attributeSegmentPattern = `(${nixIdentifierPattern}|\\*)`;
+const attributePathPattern = new RegExp(
+  `^${nixIdentifierPattern}(\\.${attributeSegmentPattern})*$`,
+);
 
 const AttributePath = Schema.NonEmptyString.pipe(
   Schema.filter((s) => !s.startsWith("#") && !s.startsWith(".#"), {
@@ -14,7 +18,7 @@ const AttributePath = Schema.NonEmptyString.pipe(
   }),
   Schema.pattern(attributePathPattern, {
     message: () =>
-      "Invalid attribute path format. Expected format: 'packages.x86_64-linux.default' or 'nixosConfigurations.myhost.config.system.build.toplevel'",
+      "Invalid attribute path format. Expected format: 'packages.x86_64-linux.default' or 'nixosConfigurations.*.config.system.build.toplevel'",
   }),
 ).annotations({
   identifier: "AttributePath",
@@ -23,23 +27,243 @@ const AttributePath = Schema.NonEmptyString.pipe(
     "packages.x86_64-linux.default",
     "nixosConfigurations.myhost.config.system.build.toplevel",
     "devShells.x86_64-linux.default",
+    "nixosConfigurations.*.config.system.build.toplevel",
   ],
 });
 
+export const DiffBackend = Schema.Literal("dix", "nvd", "diff-closures", "nix-diff").annotations({
+  identifier: "DiffBackend",
+  description:
+    "Tool used to compare base and PR: dix, nvd, nix store diff-closures, or nix-diff (derivation-level)",
+});
+export type DiffBackend = typeof DiffBackend.Type;
+
+// Flags accepted in nix-args, with the number of values each takes
+const nixArgArity: Record<string, number> = {
+  "--option": 2,
+  "--override-input": 2,
+  "--impure": 0,
+  "--system": 1,
+  "--store": 1,
+};
+
+// Settings accepted in --option. Anything else is rejected, since settings such as
+// plugin-files, trusted-public-keys, hooks or their deprecated aliases
+// (binary-cache-public-keys, ...) could make `nix run` fetch or execute a different diff
+// tool binary. Substituters are fine: their paths still need a trusted signature.
+const allowedNixOptions = new Set([
+  "substituters",
+  "extra-substituters",
+  "access-tokens",
+  "connect-timeout",
+  "stalled-download-timeout",
+  "download-attempts",
+  "http-connections",
+  "max-substitution-jobs",
+  "narinfo-cache-negative-ttl",
+  "narinfo-cache-positive-ttl",
+  "tarball-ttl",
+  "fallback",
+  "max-jobs",
+  "cores",
+  "keep-going",
+  "system-features",
+  "extra-system-features",
+  "extra-platforms",
+  "experimental-features",
+  "extra-experimental-features",
+  "allow-import-from-derivation",
+  "eval-cache",
+  "pure-eval",
+  "restrict-eval",
+  "allowed-uris",
+  "extra-allowed-uris",
+  "show-trace",
+  "warn-dirty",
+  "max-call-depth",
+]);
+
+const validateNixArgs = (args: readonly string[]): string | true => {
+  for (let i = 0; i < args.length; ) {
+    const flag = args[i];
+    const arity = nixArgArity[flag];
+    if (arity === undefined) {
+      return `Unsupported nix argument '${flag}'. Allowed: ${Object.keys(nixArgArity).join(", ")}`;
+    }
+    const values = args.slice(i + 1, i + 1 + arity);
+    if (values.length < arity || values.some((v) => v.startsWith("--"))) {
+      return `${flag} expects ${arity} value(s)`;
+    }
+    if (flag === "--option" && !allowedNixOptions.has(values[0])) {
+      return `--option ${values[0]} is not allowed. Allowed settings: ${[...allowedNixOptions].join(", ")}`;
+    }
+    i += 1 + arity;
+  }
+  return true;
+};
+
+export const NixArgs = Schema.Array(Schema.String)
+  .pipe(Schema.filter(validateNixArgs))
+  .annotations({
+    identifier: "NixArgs",
+    description:
+      "Extra arguments for nix invocations (--option, --override-input, --impure, --system, --store)",
+  });
+export type NixArgs = typeof NixArgs.Type;
+
+// Wildcard attributes expand to one comparison per match, so the displayName
+// must reference a matched segment ($1, $2, ...) to keep names unique
 export const NixOutputConfig = Schema.Struct({
   displayName: Schema.NonEmptyString.annotations({
-    description: "User-friendly name for this comparison",
+    description: "User-friendly name for this comparison ($1, $2, ... refer to wildcard matches)",
   }),
   attribute: AttributePath.annotations({
     description: "Nix attribute path (e.g., packages.x86_64-linux.default)",
   }),
-}).annotations({ identifier: "NixOutputConfig" });
+  backend: Schema.optional(DiffBackend),
+  nixArgs: Schema.optional(NixArgs),
+  build: Schema.optional(
+    Schema.Boolean.annotations({ description: "Build this attribute, overrides the build input" }),
+  ),
+  directory: Schema.optional(
+    Schema.NonEmptyString.annotations({
+      description:
+        "Directory containing the flake for this attribute, overrides the directory input",
+    }),
+  ),
+  timeout: Schema.optional(
+    Schema.Number.pipe(Schema.positive()).annotations({
+      description: "Seconds allowed for evaluating, building and diffing this attribute",
+    }),
+  ),
+})
+  .pipe(
+    Schema.filter(
+      (config) => !config.attribute.includes("*") || /\$[1-9]/.test(config.displayName),
+      {
+        message: () =>
+          "displayName must reference a matched segment (e.g. '$1') when attribute contains a '*' wildcard",
+      },
+    ),
+  )
+  .annotations({ identifier: "NixOutputConfig" });
 export type NixOutputConfig = typeof NixOutputConfig.Type;
 
 export const NixOutputConfigArray = Schema.Array(NixOutputConfig).annotations({
   identifier: "NixOutputConfigArray",
 });
 
+export const DixEntry = Schema.Struct({
+  section: Schema.Literal("changed", "added", "removed").annotations({
+    description: "dix section the entry appears in (CHANGED, ADDED or REMOVED)",
+  }),
+  status: Schema.String.annotations({
+    description:
+      "Two-character dix status: change kind (U, D, C, A, R) followed by selection state (., *, +, -)",
+    examples: ["U.", "A*", "R-"],
+  }),
+  name: Schema.String.annotations({ description: "Package name" }),
+  before: Schema.Array(Schema.String).annotations({
+    description: "Versions on base (empty for added entries)",
+  }),
+  after: Schema.Array(Schema.String).annotations({
+    description: "Versions in PR (empty for removed entries)",
+  }),
+}).annotations({ identifier: "DixEntry" });
+export type DixEntry = typeof DixEntry.Type;
+
+export const DixReport = Schema.Struct({
+  basePath: Schema.optional(Schema.String).annotations({
+    description: "Base store path from the <<< line",
+  }),
+  prPath: Schema.optional(Schema.String).annotations({
+    description: "PR store path from the >>> line",
+  }),
+  entries: Schema.Array(DixEntry),
+  size: Schema.optional(
+    Schema.Struct({ before: Schema.String, after: Schema.String }).annotations({
+      description: "Closure sizes from the SIZE line",
+    }),
+  ),
+  sizeDiff: Schema.optional(Schema.String).annotations({
+    description: "Closure size difference from the DIFF line",
+  }),
+  unrecognized: Schema.Array(Schema.String).annotations({
+    description: "Non-empty lines the parser did not understand",
+  }),
+}).annotations({ identifier: "DixReport" });
+export type DixReport = typeof DixReport.Type;
+
+export const LockedInput = Schema.Struct({
+  type: Schema.String,
+  owner: Schema.optional(Schema.String),
+  repo: Schema.optional(Schema.String),
+  host: Schema.optional(Schema.String),
+  url: Schema.optional(Schema.String),
+  rev: Schema.optional(Schema.String),
+  narHash: Schema.optional(Schema.String),
+  lastModified: Schema.optional(Schema.Number),
+}).annotations({ identifier: "LockedInput" });
+export type LockedInput = typeof LockedInput.Type;
+
+export const FlakeInputChange = Schema.Struct({
+  input: Schema.String.annotations({ description: "Node name in flake.lock" }),
+  change: Schema.Literal("updated", "added", "removed"),
+  before: Schema.optional(LockedInput),
+  after: Schema.optional(LockedInput),
+}).annotations({ identifier: "FlakeInputChange" });
+export type FlakeInputChange = typeof FlakeInputChange.Type;
+
+export const RebuildEstimate = Schema.Struct({
+  build: Schema.Number.annotations({ description: "Derivations that would have to be built" }),
+  fetch: Schema.Number.annotations({
+    description: "Paths that would be fetched from substituters",
+  }),
+  downloadBytes: Schema.Number,
+  unpackedBytes: Schema.Number,
+}).annotations({ identifier: "RebuildEstimate" });
+export type RebuildEstimate = typeof RebuildEstimate.Type;
+
+export const SizeChange = Schema.Struct({
+  name: Schema.String.annotations({ description: "Package name without version" }),
+  before: Schema.Number.annotations({ description: "Bytes in the base closure" }),
+  after: Schema.Number.annotations({ description: "Bytes in the PR closure" }),
+}).annotations({ identifier: "SizeChange" });
+export type SizeChange = typeof SizeChange.Type;
+
+export const SizeBreakdown = Schema.Struct({
+  grew: Schema.Array(SizeChange),
+  shrank: Schema.Array(SizeChange),
+  appeared: Schema.Array(SizeChange),
+  disappeared: Schema.Array(SizeChange),
+}).annotations({ identifier: "SizeBreakdown" });
+export type SizeBreakdown = typeof SizeBreakdown.Type;
+
+export const DependencyChain = Schema.Struct({
+  name: Schema.String.annotations({ description: "Package name without version" }),
+  chain: Schema.Array(Schema.String).annotations({
+    description: "Store paths from the attribute output down to the package",
+  }),
+}).annotations({ identifier: "DependencyChain" });
+export type DependencyChain = typeof DependencyChain.Type;
+
+export const DuplicateVersions = Schema.Struct({
+  name: Schema.String.annotations({ description: "Package name without version" }),
+  baseVersions: Schema.Array(Schema.String),
+  prVersions: Schema.Array(Schema.String),
+}).annotations({ identifier: "DuplicateVersions" });
+export type DuplicateVersions = typeof DuplicateVersions.Type;
+
+export const EvalWarnings = Schema.Struct({
+  introduced: Schema.Array(Schema.String).annotations({
+    description: "Warnings and traces printed for the PR but not for base",
+  }),
+  resolved: Schema.Array(Schema.String).annotations({
+    description: "Warnings and traces printed for base but not for the PR",
+  }),
+}).annotations({ identifier: "EvalWarnings" });
+export type EvalWarnings = typeof EvalWarnings.Type;
+
 export const DiffResult = Schema.Struct({
   displayName: Schema.NonEmptyString.annotations({
     description: "User-friendly name from output config",
@@ -53,12 +277,121 @@ export const DiffResult = Schema.Struct({
   prRef: Schema.NonEmptyString.annotations({
     description: "Commit SHA of the PR head",
   }),
-  diff: Schema.NonEmptyString.annotations({
-    description: "Diff output from dix tool",
+  diff: Schema.String.annotations({
+    description: "Diff output from the diff backend (empty when the attribute failed)",
   }),
+  backend: Schema.optional(DiffBackend),
+  report: Schema.optional(
+    DixReport.annotations({ description: "Parsed dix output (dix backend only)" }),
+  ),
+  change: Schema.optional(
+    Schema.Literal("changed", "added", "removed").annotations({
+      description:
+        "Whether the attribute exists on both sides (changed), only in the PR (added) or only on base (removed)",
+    }),
+  ),
+  status: Schema.optional(
+    Schema.Literal("ok", "eval-failed", "build-failed", "dix-failed", "timed-out").annotations({
+      description: "Outcome of the comparison; failures are only recorded with continue-on-error",
+    }),
+  ),
+  error: Schema.optional(
+    Schema.String.annotations({
+      description: "Trimmed Nix error output for failed comparisons",
+    }),
+  ),
+  inputChanges: Schema.optional(
+    Schema.Array(FlakeInputChange).annotations({
+      description: "flake.lock inputs that differ between base and PR for this attribute's flake",
+    }),
+  ),
+  rebuild: Schema.optional(
+    RebuildEstimate.annotations({
+      description: "Dry-run cost of realising the PR output (drv mode only)",
+    }),
+  ),
+  sizeBreakdown: Schema.optional(
+    SizeBreakdown.annotations({
+      description: "Packages contributing most to the closure size change (build mode only)",
+    }),
+  ),
+  whyDepends: Schema.optional(
+    Schema.Array(DependencyChain).annotations({
+      description: "Shortest dependency chains of packages added to the closure (build mode only)",
+    }),
+  ),
+  whyDependsOmitted: Schema.optional(
+    Schema.Number.annotations({
+      description: "Added packages left unexplained because of the per-attribute why-depends cap",
+    }),
+  ),
+  duplicates: Schema.optional(
+    Schema.Array(DuplicateVersions).annotations({
+      description: "Packages the PR closure has in more versions than the base closure",
+    }),
+  ),
+  evalWarnings: Schema.optional(
+    EvalWarnings.annotations({
+      description: "Evaluation warnings introduced or resolved by the PR",
+    }),
+  ),
+  durationMs: Schema.optional(
+    Schema.Number.annotations({
+      description: "Wall-clock time spent evaluating and diffing the attribute",
+    }),
+  ),
 }).annotations({ identifier: "DiffResult" });
 export type DiffResult = typeof DiffResult.Type;
 
 export const DiffResultArray = Schema.Array(DiffResult).annotations({
   identifier: "DiffResultArray",
 });
+
+const RegexPattern = Schema.String.pipe(
+  Schema.filter(
+    (s) => {
+      try {
+        new RegExp(s);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: (issue) => `Invalid regular expression: ${String(issue.actual)}` },
+  ),
+).annotations({ identifier: "RegexPattern" });
+
+// A rule hides every dix entry it matches. Criteria are combined with AND;
+// a rule with only `attribute` hides the whole attribute.
+export const ChangeFilterRule = Schema.Struct({
+  package: Schema.optional(
+    RegexPattern.annotations({ description: "Regex matched against the package name" }),
+  ),
+  version: Schema.optional(
+    RegexPattern.annotations({
+      description:
+        "Regex that old and new versions must both match. Capture groups must be equal on both sides, e.g. '^(\\d+\\.\\d+)\\.' ignores bumps within a major.minor release",
+    }),
+  ),
+  attribute: Schema.optional(
+    RegexPattern.annotations({
+      description: "Regex matched against displayName or attribute path to scope the rule",
+    }),
+  ),
+  reason: Schema.optional(
+    Schema.String.annotations({ description: "Shown next to hidden changes in the comment" }),
+  ),
+})
+  .pipe(
+    Schema.filter(
+      (rule) =>
+        rule.package !== undefined || rule.version !== undefined || rule.attribute !== undefined,
+      { message: () => "Filter rule needs at least one of 'package', 'version' or 'attribute'" },
+    ),
+  )
+  .annotations({ identifier: "ChangeFilterRule" });
+export type ChangeFilterRule = typeof ChangeFilterRule.Type;
+
+export const ChangeFilterRuleArray = Schema.Array(ChangeFilterRule).annotations({
+  identifier: "ChangeFilterRuleArray",
+});
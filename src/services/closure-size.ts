@@ -0,0 +1,102 @@
+import type { SizeBreakdown, SizeChange } from "../schemas.js";
+import { formatBytes, sanitizeDisplayName } from "./markdown.js";
+import { parseStorePathName } from "./utils.js";
+
+// Parser for `nix path-info --recursive --json`. Nix before 2.19 prints an array of
+// objects with a `path` field; newer versions print an object keyed by store path.
+export const parsePathInfoSizes = (json: string): ReadonlyMap<string, number> => {
+  const parsed: unknown = JSON.parse(json);
+  const entries: [string, unknown][] = Array.isArray(parsed)
+    ? parsed.map((info: { path?: string }) => [info?.path ?? "", info])
+    : Object.entries(parsed as Record<string, unknown>);
+
+  const sizes = new Map<string, number>();
+  for (const [path, info] of entries) {
+    const narSize = (info as { narSize?: unknown } | null)?.narSize;
+    if (path !== "" && typeof narSize === "number") {
+      sizes.set(path, narSize);
+    }
+  }
+  return sizes;
+};
+
+// Sum store path sizes per package name, so version bumps and split outputs
+// are compared as one package
+const sizesByPackage = (sizes: ReadonlyMap<string, number>): Map<string, number> => {
+  const packages = new Map<string, number>();
+  for (const [path, size] of sizes) {
+    const { name } = parseStorePathName(path);
+    packages.set(name, (packages.get(name) ?? 0) + size);
+  }
+  return packages;
+};
+
+const byDelta = (a: SizeChange, b: SizeChange): number =>
+  Math.abs(b.after - b.before) - Math.abs(a.after - a.before) || a.name.localeCompare(b.name);
+
+// Top `limit` packages per kind of change, ordered by the size of the change
+export const computeSizeBreakdown = (
+  base: ReadonlyMap<string, number>,
+  pr: ReadonlyMap<string, number>,
+  limit: number,
+): SizeBreakdown => {
+  const basePackages = sizesByPackage(base);
+  const prPackages = sizesByPackage(pr);
+  const names = new Set([...basePackages.keys(), ...prPackages.keys()]);
+
+  const breakdown: Record<keyof SizeBreakdown, SizeChange[]> = {
+    grew: [],
+    shrank: [],
+    appeared: [],
+    disappeared: [],
+  };
+  for (const name of names) {
+    const before = basePackages.get(name);
+    const after = prPackages.get(name);
+    if (before === undefined) {
+      breakdown.appeared.push({ name, before: 0, after: after ?? 0 });
+    } else if (after === undefined) {
+      breakdown.disappeared.push({ name, before, after: 0 });
+    } else if (after > before) {
+      breakdown.grew.push({ name, before, after });
+    } else if (after < before) {
+      breakdown.shrank.push({ name, before, after });
+    }
+  }
+
+  return {
+    grew: breakdown.grew.sort(byDelta).slice(0, limit),
+    shrank: breakdown.shrank.sort(byDelta).slice(0, limit),
+    appeared: breakdown.appeared.sort(byDelta).slice(0, limit),
+    disappeared: breakdown.disappeared.sort(byDelta).slice(0, limit),
+  };
+};
+
+const changeLabels: Record<keyof SizeBreakdown, string> = {
+  grew: "grew",
+  shrank: "shrank",
+  appeared: "added",
+  disappeared: "removed",
+};
+
+const formatDelta = (bytes: number): string => `${bytes > 0 ? "+" : ""}${formatBytes(bytes)}`;
+
+// Table of the packages that contribute most to the closure size change, or an empty
+// string when nothing changed in size
+export const formatSizeBreakdown = (breakdown: SizeBreakdown): string => {
+  const rows = (Object.keys(changeLabels) as (keyof SizeBreakdown)[]).flatMap((kind) =>
+    breakdown[kind].map(
+      (change) =>
+        `| ${changeLabels[kind]} | ${sanitizeDisplayName(change.name)} | ${kind === "appeared" ? "-" : formatBytes(change.before)} | ${kind === "disappeared" ? "-" : formatBytes(change.after)} | ${formatDelta(change.after - change.before)} |`,
+    ),
+  );
+  if (rows.length === 0) return "";
+
+  return [
+    "**Closure size breakdown**",
+    "",
+    "| Change | Package | Base | PR | Delta |",
+    "| ------ | ------- | ---: | -: | ----: |",
+    ...rows,
+  ].join("\n");
+};
@@ -0,0 +1,92 @@
+import type { DixEntry, DixReport } from "../schemas.js";
+import { sanitizeDisplayName } from "./markdown.js";
+
+// Markdown table rendering of parsed dix reports, used with comment-format: table
+
+export type VersionBump = "major" | "minor" | "patch" | "other";
+
+// Classify a version change by the first component that differs. Versions that differ in
+// a non-numeric component (dates, git revisions, suffixes like "-unstable") are "other".
+export const classifyVersionBump = (before: string, after: string): VersionBump | undefined => {
+  if (before === after) return undefined;
+  const a = before.split(/[.\-+_]/);
+  const b = after.split(/[.\-+_]/);
+  // A missing component counts as 0, so 1.2 -> 1.2.1 is a patch
+  const index = a.findIndex((part, i) => part !== b[i]);
+  const position = index === -1 ? a.length : index;
+  if (!/^\d+$/.test(a[position] ?? "0") || !/^\d+$/.test(b[position] ?? "0")) return "other";
+  return position === 0 ? "major" : position === 1 ? "minor" : "patch";
+};
+
+const bumpBadges: Record<VersionBump, string> = {
+  major: "🔴 major",
+  minor: "🟡 minor",
+  patch: "🟢 patch",
+  other: "⚪ other",
+};
+
+// Icons for the change kind in dix's status column
+const statusIcons: Record<string, string> = {
+  U: "⬆️",
+  D: "⬇️",
+  C: "🔄",
+  A: "➕",
+  R: "➖",
+};
+
+const formatChangeKind = (entry: DixEntry): string => {
+  switch (entry.section) {
+    case "changed": {
+      // Entries with several versions are classified by their first version on each side
+      const bump = classifyVersionBump(entry.before[0] ?? "", entry.after[0] ?? "");
+      return bump ? bumpBadges[bump] : "";
+    }
+    case "added":
+      return "added";
+    case "removed":
+      return "removed";
+  }
+};
+
+const formatRow = (entry: DixEntry): string =>
+  `| ${statusIcons[entry.status[0]] ?? entry.status} | ${sanitizeDisplayName(entry.name)} | ${entry.before.join(", ") || "-"} | ${entry.after.join(", ") || "-"} | ${formatChangeKind(entry)} |`;
+
+// Counts of changed, added and removed packages with the closure size change
+export const formatDixHeader = (report: DixReport): string => {
+  const count = (section: DixEntry["section"]) =>
+    report.entries.filter((e) => e.section === section).length;
+  const counts = `**${count("changed")} changed, ${count("added")} added, ${count("removed")} removed**`;
+  if (report.size === undefined) return counts;
+  const delta = report.sizeDiff !== undefined ? ` (${report.sizeDiff})` : "";
+  return `${counts} · Size: ${report.size.before} → ${report.size.after}${delta}`;
+};
+
+const tableHeader = "| | Package | Old | New | Change |\n| - | ------- | --- | --- | ------ |";
+
+// Rows that do not fit in maxLength are summarized in a last row
+export const formatDixTable = (
+  report: DixReport,
+  maxLength: number,
+): { text: string; truncated: boolean } => {
+  const header = `${formatDixHeader(report)}\n\n${tableHeader}`;
+  const allRows = report.entries.map(formatRow);
+  const fullLength = allRows.reduce((sum, row) => sum + row.length + 1, header.length);
+  if (fullLength <= maxLength) {
+    return { text: [header, ...allRows].join("\n"), truncated: false };
+  }
+
+  const rows: string[] = [];
+  let length = header.length;
+  for (const row of allRows) {
+    // Leave room for the summary row
+    if (length + row.length + 40 > maxLength) break;
+    rows.push(row);
+    length += row.length + 1;
+  }
+
+  const omitted = report.entries.length - rows.length;
+  if (omitted > 0) {
+    rows.push(`| | ... ${omitted} more | | | |`);
+  }
+  return { text: [header, ...rows].join("\n"), truncated: omitted > 0 };
+};
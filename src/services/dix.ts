@@ -0,0 +1,203 @@
+import type { DixEntry, DixReport } from "../schemas.js";
+
+// Parser for dix output. Example:
+//
+// <<< /nix/store/xxx-nixos-system-host-25.11.drv
+// >>> /nix/store/yyy-nixos-system-host-25.11.drv
+//
+// CHANGED
+// [U.] 7zz                        24.09 → 25.00
+//
+// ADDED
+// [A.] hostname-hostname-debian   3.25
+//
+// REMOVED
+// [R-] swww                       0.10.3
+//
+// SIZE: 29.7 GiB → 29.7 GiB
+// DIFF: -19.3 MiB
+
+const sectionHeaders: Record<string, DixEntry["section"]> = {
+  CHANGED: "changed",
+  ADDED: "added",
+  REMOVED: "removed",
+};
+
+// dix prints "→" but older versions (and our tests) use "->"
+const arrowPattern = /\s+(?:→|->)\s+/;
+const entryPattern = /^\[([A-Z])(.)\]\s+(\S+)(?:\s+(.*))?$/;
+const sizePattern = /^SIZE:\s*(.+)$/;
+const sizeDiffPattern = /^DIFF:\s*(.+)$/;
+
+const splitVersions = (versions: string | undefined): string[] =>
+  versions === undefined || versions.trim() === ""
+    ? []
+    : versions
+        .split(",")
+        .map((v) => v.trim())
+        .filter((v) => v !== "");
+
+const parseEntry = (line: string, section: DixEntry["section"]): DixEntry | undefined => {
+  const match = line.match(entryPattern);
+  if (!match) return undefined;
+
+  const [, kind, selection, name, versions] = match;
+  const status = `${kind}${selection}`;
+
+  switch (section) {
+    case "changed": {
+      const [before, after] = (versions ?? "").split(arrowPattern);
+      return { section, status, name, before: splitVersions(before), after: splitVersions(after) };
+    }
+    case "added":
+      return { section, status, name, before: [], after: splitVersions(versions) };
+    case "removed":
+      return { section, status, name, before: splitVersions(versions), after: [] };
+  }
+};
+
+export const parseDixReport = (text: string): DixReport => {
+  let basePath: string | undefined;
+  let prPath: string | undefined;
+  let size: DixReport["size"];
+  let sizeDiff: string | undefined;
+  let section: DixEntry["section"] | undefined;
+  const entries: DixEntry[] = [];
+  const unrecognized: string[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === "") continue;
+
+    if (line.startsWith("<<<")) {
+      basePath = line.slice(3).trim();
+      continue;
+    }
+    if (line.startsWith(">>>")) {
+      prPath = line.slice(3).trim();
+      continue;
+    }
+    if (line in sectionHeaders) {
+      section = sectionHeaders[line];
+      continue;
+    }
+
+    const sizeMatch = line.match(sizePattern);
+    if (sizeMatch) {
+      const [before, after] = sizeMatch[1].split(arrowPattern);
+      size = { before: before.trim(), after: (after ?? before).trim() };
+      continue;
+    }
+
+    const sizeDiffMatch = line.match(sizeDiffPattern);
+    if (sizeDiffMatch) {
+      sizeDiff = sizeDiffMatch[1].trim();
+      continue;
+    }
+
+    const entry = section ? parseEntry(line, section) : undefined;
+    if (entry) {
+      entries.push(entry);
+    } else {
+      unrecognized.push(line);
+    }
+  }
+
+  return { basePath, prPath, entries, size, sizeDiff, unrecognized };
+};
+
+const formatVersions = (entry: DixEntry): string => {
+  switch (entry.section) {
+    case "changed":
+      return `${entry.before.join(", ")} → ${entry.after.join(", ")}`;
+    case "added":
+      return entry.after.join(", ");
+    case "removed":
+      return entry.before.join(", ");
+  }
+};
+
+export const formatDixEntry = (entry: DixEntry, nameWidth = 0): string =>
+  `[${entry.status}] ${entry.name.padEnd(nameWidth)} ${formatVersions(entry)}`.trimEnd();
+
+const sectionOrder: ReadonlyArray<[DixEntry["section"], string]> = [
+  ["changed", "CHANGED"],
+  ["added", "ADDED"],
+  ["removed", "REMOVED"],
+];
+
+// Render a report back into dix's text format, e.g. after filtering out entries.
+// omitted counts the entries per section that were left out to shorten the report.
+export const formatDixReport = (
+  report: DixReport,
+  omitted: Partial<Record<DixEntry["section"], number>> = {},
+): string => {
+  const nameWidth = Math.max(0, ...report.entries.map((e) => e.name.length));
+  const blocks: string[] = [];
+
+  const header = [
+    report.basePath !== undefined ? `<<< ${report.basePath}` : undefined,
+    report.prPath !== undefined ? `>>> ${report.prPath}` : undefined,
+  ].filter((line) => line !== undefined);
+  if (header.length > 0) blocks.push(header.join("\n"));
+
+  for (const [section, title] of sectionOrder) {
+    const entries = report.entries.filter((e) => e.section === section);
+    const more = omitted[section] ?? 0;
+    if (entries.length > 0 || more > 0) {
+      const lines = [title, ...entries.map((e) => formatDixEntry(e, nameWidth))];
+      if (more > 0) lines.push(`... ${more} more`);
+      blocks.push(lines.join("\n"));
+    }
+  }
+
+  if (report.unrecognized.length > 0) blocks.push(report.unrecognized.join("\n"));
+
+  const summary = [
+    report.size !== undefined ? `SIZE: ${report.size.before} → ${report.size.after}` : undefined,
+    report.sizeDiff !== undefined ? `DIFF: ${report.sizeDiff}` : undefined,
+  ].filter((line) => line !== undefined);
+  if (summary.length > 0) blocks.push(summary.join("\n"));
+
+  return blocks.join("\n\n");
+};
+
+// Packages selected in the closure root (status "*", "+" or "-") matter more than
+// dependencies, and changes more than additions, which matter more than removals
+const entryImportance = (entry: DixEntry): number =>
+  (entry.status[1] === "." ? 0 : 3) +
+  (entry.section === "changed" ? 2 : entry.section === "added" ? 1 : 0);
+
+// Shorten a report to maxLength by dropping its least important entries, starting with
+// lines the parser did not recognize. The store paths and the SIZE/DIFF summary are
+// always kept. Returns undefined when the report has no entries to drop or does not
+// fit even without them.
+export const truncateDixReport = (report: DixReport, maxLength: number): string | undefined => {
+  const full = formatDixReport(report);
+  if (full.length <= maxLength) return full;
+  if (report.entries.length === 0) return undefined;
+
+  const nameWidth = Math.max(0, ...report.entries.map((e) => e.name.length));
+  let length = formatDixReport({ ...report, unrecognized: [] }).length;
+  const omitted: Partial<Record<DixEntry["section"], number>> = {};
+  const omittedLength = () =>
+    Object.values(omitted).reduce((sum, count) => sum + `\n... ${count} more`.length, 0);
+
+  // Among entries of equal importance the last ones go first, so sections keep their top
+  const candidates = report.entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => entryImportance(a.entry) - entryImportance(b.entry) || b.index - a.index);
+  const dropped = new Set<DixEntry>();
+  for (const { entry } of candidates) {
+    if (length + omittedLength() <= maxLength) break;
+    dropped.add(entry);
+    omitted[entry.section] = (omitted[entry.section] ?? 0) + 1;
+    length -= formatDixEntry(entry, nameWidth).length + 1;
+  }
+
+  const text = formatDixReport(
+    { ...report, entries: report.entries.filter((e) => !dropped.has(e)), unrecognized: [] },
+    omitted,
+  );
+  return text.length <= maxLength ? text : undefined;
+};
@@ -0,0 +1,63 @@
+import type { DuplicateVersions } from "../schemas.js";
+import { sanitizeDisplayName } from "./markdown.js";
+import { parseStorePathName } from "./utils.js";
+
+// Split outputs ("glibc-2.40-bin") and source archives ("openssl-3.3.2.tar.gz") carry the
+// version of the package they belong to and must not count as versions of their own
+const outputSuffix =
+  /-(?:bin|dev|out|lib|libs|man|doc|devdoc|info|debug|static|terminfo|py|modules|data)$/;
+const archiveSuffix = /\.(?:tar\.gz|tar\.xz|tar\.bz2|tar\.zst|tgz|zip|patch)$/;
+
+const normalizeVersion = (version: string): string =>
+  version.replace(archiveSuffix, "").replace(outputSuffix, "");
+
+// Versions per package name. Derivation closures also contain sources, so only
+// derivations are counted there, as in formatPackageList.
+const versionsByPackage = (closure: readonly string[]): Map<string, Set<string>> => {
+  const isDerivation = closure.some((path) => path.endsWith(".drv"));
+  const packages = new Map<string, Set<string>>();
+  for (const path of closure) {
+    if (isDerivation && !path.endsWith(".drv")) continue;
+    const { name, version } = parseStorePathName(path);
+    const normalized = normalizeVersion(version);
+    if (normalized === "") continue;
+    const versions = packages.get(name) ?? new Set<string>();
+    versions.add(normalized);
+    packages.set(name, versions);
+  }
+  return packages;
+};
+
+// Packages present in several versions in the PR closure that the base closure
+// had in fewer versions
+export const findDuplicateVersions = (
+  baseClosure: readonly string[],
+  prClosure: readonly string[],
+): DuplicateVersions[] => {
+  const base = versionsByPackage(baseClosure);
+  const pr = versionsByPackage(prClosure);
+  return [...pr]
+    .filter(([name, versions]) => versions.size > 1 && versions.size > (base.get(name)?.size ?? 0))
+    .map(([name, versions]) => ({
+      name,
+      baseVersions: [...(base.get(name) ?? [])].sort(),
+      prVersions: [...versions].sort(),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const formatDuplicateVersions = (duplicates: readonly DuplicateVersions[]): string => {
+  if (duplicates.length === 0) return "";
+
+  const rows = duplicates.map(
+    (duplicate) =>
+      `| ${sanitizeDisplayName(duplicate.name)} | ${duplicate.baseVersions.join(", ") || "-"} | ${duplicate.prVersions.join(", ")} |`,
+  );
+  return [
+    "**Duplicate versions**",
+    "",
+    "| Package | Base | PR |",
+    "| ------- | ---- | -- |",
+    ...rows,
+  ].join("\n");
+};
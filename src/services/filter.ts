@@ -0,0 +1,128 @@
+import type { ChangeFilterRule, DiffResult, DixEntry } from "../schemas.js";
+import { formatDixEntry, formatDixReport, parseDixReport } from "./dix.js";
+
+export type HiddenChange = {
+  displayName: string;
+  change: string;
+  reason: string;
+};
+
+export type FilterResult = {
+  visible: readonly DiffResult[];
+  hidden: readonly HiddenChange[];
+};
+
+export const isFailedResult = (result: DiffResult): boolean =>
+  result.status !== undefined && result.status !== "ok";
+
+const describeRule = (rule: ChangeFilterRule): string =>
+  rule.reason ??
+  [
+    rule.package !== undefined ? `package /${rule.package}/` : undefined,
+    rule.version !== undefined ? `version /${rule.version}/` : undefined,
+    rule.attribute !== undefined ? `attribute /${rule.attribute}/` : undefined,
+  ]
+    .filter((part) => part !== undefined)
+    .join(", ");
+
+const matchesAttribute = (rule: ChangeFilterRule, result: DiffResult): boolean => {
+  if (rule.attribute === undefined) return true;
+  const pattern = new RegExp(rule.attribute);
+  return pattern.test(result.displayName) || pattern.test(result.attributePath);
+};
+
+const isAttributeRule = (rule: ChangeFilterRule): boolean =>
+  rule.package === undefined && rule.version === undefined;
+
+// Both sides must match and agree on the captured groups (or the whole match without groups)
+const matchesVersionBump = (pattern: string, entry: DixEntry): boolean => {
+  if (entry.section !== "changed" || entry.before.length === 0 || entry.after.length === 0) {
+    return false;
+  }
+  const regex = new RegExp(pattern);
+  const keys = [...entry.before, ...entry.after].map((version) => {
+    const match = version.match(regex);
+    return match ? (match.length > 1 ? match.slice(1).join("\0") : match[0]) : undefined;
+  });
+  return keys.every((key) => key !== undefined) && new Set(keys).size === 1;
+};
+
+const matchesEntry = (rule: ChangeFilterRule, entry: DixEntry): boolean =>
+  (rule.package === undefined || new RegExp(rule.package).test(entry.name)) &&
+  (rule.version === undefined || matchesVersionBump(rule.version, entry));
+
+// Apply filter rules to results before posting. Failed, added and removed attributes are
+// always shown. Every suppression is returned in `hidden` so it can be listed in the comment.
+export const applyChangeFilters = (
+  results: readonly DiffResult[],
+  rules: readonly ChangeFilterRule[],
+): FilterResult => {
+  const visible: DiffResult[] = [];
+  const hidden: HiddenChange[] = [];
+
+  for (const result of results) {
+    if (isFailedResult(result) || result.change === "added" || result.change === "removed") {
+      visible.push(result);
+      continue;
+    }
+
+    const attributeRule = rules.find(
+      (rule) => isAttributeRule(rule) && matchesAttribute(rule, result),
+    );
+    if (attributeRule) {
+      hidden.push({
+        displayName: result.displayName,
+        change: "all changes",
+        reason: describeRule(attributeRule),
+      });
+      continue;
+    }
+
+    // Other backends print nothing when there are no differences and have no entries to filter
+    if ((result.backend ?? "dix") !== "dix") {
+      if (result.diff.trim() !== "") visible.push(result);
+      continue;
+    }
+
+    const report = result.report ?? parseDixReport(result.diff);
+    // Nix store paths are content-addressed: same paths = same content
+    if (report.basePath !== undefined && report.basePath === report.prPath) continue;
+
+    const entryRules = rules.filter(
+      (rule) => !isAttributeRule(rule) && matchesAttribute(rule, result),
+    );
+    const kept: DixEntry[] = [];
+    for (const entry of report.entries) {
+      const rule = entryRules.find((r) => matchesEntry(r, entry));
+      if (rule) {
+        hidden.push({
+          displayName: result.displayName,
+          change: formatDixEntry(entry),
+          reason: describeRule(rule),
+        });
+      } else {
+        kept.push(entry);
+      }
+    }
+
+    if (kept.length === 0) {
+      if (report.entries.length === 0) {
+        hidden.push({
+          displayName: result.displayName,
+          change: report.sizeDiff !== undefined ? `DIFF: ${report.sizeDiff}` : "closure changed",
+          reason: "no package changes",
+        });
+      }
+      continue;
+    }
+
+    if (kept.length === report.entries.length) {
+      visible.push(result);
+    } else {
+      const filteredReport = { ...report, entries: kept };
+      visible.push({ ...result, report: filteredReport, diff: formatDixReport(filteredReport) });
+    }
+  }
+
+  return { visible, hidden };
+};
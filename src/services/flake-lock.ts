@@ -0,0 +1,128 @@
+import type { DiffResult, FlakeInputChange, LockedInput } from "../schemas.js";
+import { sanitizeDisplayName } from "./markdown.js";
+
+// Minimal view of flake.lock (version 7):
+//
+// {
+//   "nodes": {
+//     "nixpkgs": {
+//       "locked": { "type": "github", "owner": "NixOS", "repo": "nixpkgs", "rev": "…", "narHash": "…", "lastModified": 1700000000 },
+//       "original": { … }
+//     },
+//     "root": { "inputs": { "nixpkgs": "nixpkgs" } }
+//   },
+//   "root": "root",
+//   "version": 7
+// }
+type FlakeLock = {
+  nodes?: Record<string, { locked?: LockedInput }>;
+  root?: string;
+};
+
+const lockedInputs = (json: string | undefined): Map<string, LockedInput> => {
+  if (json === undefined) {
+    return new Map();
+  }
+  const lock = JSON.parse(json) as FlakeLock;
+  const root = lock.root ?? "root";
+  return new Map(
+    Object.entries(lock.nodes ?? {}).flatMap(([name, node]) =>
+      name !== root && node.locked ? [[name, node.locked] as const] : [],
+    ),
+  );
+};
+
+/**
+ * List the inputs whose locked revision or hash differs between two flake.lock files.
+ * A missing lock file (undefined) counts as having no inputs.
+ */
+export const diffFlakeLocks = (
+  baseJson: string | undefined,
+  prJson: string | undefined,
+): FlakeInputChange[] => {
+  const base = lockedInputs(baseJson);
+  const pr = lockedInputs(prJson);
+  const names = [...new Set([...base.keys(), ...pr.keys()])].sort();
+
+  return names.flatMap((input): FlakeInputChange[] => {
+    const before = base.get(input);
+    const after = pr.get(input);
+    if (before && after) {
+      return before.rev === after.rev && before.narHash === after.narHash
+        ? []
+        : [{ input, change: "updated", before, after }];
+    }
+    return after ? [{ input, change: "added", after }] : [{ input, change: "removed", before }];
+  });
+};
+
+// Every attribute of a flake carries the same input changes; list each change once
+export const collectInputChanges = (results: readonly DiffResult[]): FlakeInputChange[] => {
+  const seen = new Map<string, FlakeInputChange>();
+  for (const change of results.flatMap((r) => r.inputChanges ?? [])) {
+    seen.set(
+      `${change.input} ${change.before?.rev ?? change.before?.narHash} ${change.after?.rev ?? change.after?.narHash}`,
+      change,
+    );
+  }
+  return [...seen.values()];
+};
+
+// Repository web URL for inputs hosted on GitHub or GitLab, either through the
+// github:/gitlab: fetchers or as git/tarball URLs
+const repositoryUrl = (locked: LockedInput): string | undefined => {
+  if (locked.type === "github" && locked.owner && locked.repo) {
+    return `https://${locked.host ?? "github.com"}/${locked.owner}/${locked.repo}`;
+  }
+  if (locked.type === "gitlab" && locked.owner && locked.repo) {
+    return `https://${locked.host ?? "gitlab.com"}/${locked.owner}/${locked.repo}`;
+  }
+  const match = locked.url?.match(
+    /^(?:git\+)?https:\/\/((?:github|gitlab)\.com\/[^/]+\/[^/?#]+?)(?:\.git)?(?:[?#].*)?$/,
+  );
+  return match ? `https://${match[1]}` : undefined;
+};
+
+const compareUrl = (before: LockedInput, after: LockedInput): string | undefined => {
+  const url = repositoryUrl(after);
+  if (!url || !before.rev || !after.rev || url !== repositoryUrl(before)) {
+    return undefined;
+  }
+  return url.includes("gitlab")
+    ? `${url}/-/compare/${before.rev}...${after.rev}`
+    : `${url}/compare/${before.rev}...${after.rev}`;
+};
+
+const formatLocked = (locked: LockedInput | undefined): string => {
+  if (!locked) {
+    return "-";
+  }
+  const version = locked.rev
+    ? `\`${locked.rev.slice(0, 7)}\``
+    : locked.narHash
+      ? `\`${locked.narHash.slice(0, 15)}…\``
+      : "-";
+  const date =
+    locked.lastModified === undefined
+      ? ""
+      : ` (${new Date(locked.lastModified * 1000).toISOString().slice(0, 10)})`;
+  return `${version}${date}`;
+};
+
+/**
+ * Render input changes as a table placed at the top of the report
+ */
+export const formatInputChanges = (changes: readonly FlakeInputChange[]): string => {
+  if (changes.length === 0) {
+    return "";
+  }
+  const rows = changes.map((c) => {
+    const link = c.before && c.after ? compareUrl(c.before, c.after) : undefined;
+    return `| ${sanitizeDisplayName(c.input)} | ${formatLocked(c.before)} | ${formatLocked(c.after)} | ${link ? `[compare](${link})` : c.change === "updated" ? "" : c.change} |`;
+  });
+  return `### Flake inputs
+
+| Input | Base | PR | |
+| --- | --- | --- | --- |
+${rows.join("\n")}`;
+};
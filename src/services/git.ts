@@ -48,13 +48,17 @@ export const removeWorktree = (path: string) =>
     Effect.ignore,
   );
 
+// Push events give us a commit rather than a branch to compare against
+export const isCommitSha = (ref: string): boolean => /^[0-9a-f]{40}$/.test(ref);
+
+// Branches are fetched into their remote-tracking ref; commits are fetched directly
 const fetchRef = (baseRef: string) =>
   Effect.tryPromise({
     try: () =>
       exec.exec("git", [
         "fetch",
         "origin",
-        `+${baseRef}:refs/remotes/origin/${baseRef}`,
+        isCommitSha(baseRef) ? baseRef : `+${baseRef}:refs/remotes/origin/${baseRef}`,
         "--depth=1",
       ]),
     catch: () =>
@@ -66,7 +70,14 @@ const fetchRef = (baseRef: string) =>
 
 const addWorktree = (worktreePath: string, baseRef: string) =>
   Effect.tryPromise({
-    try: () => exec.exec("git", ["worktree", "add", "--detach", worktreePath, `origin/${baseRef}`]),
+    try: () =>
+      exec.exec("git", [
+        "worktree",
+        "add",
+        "--detach",
+        worktreePath,
+        isCommitSha(baseRef) ? baseRef : `origin/${baseRef}`,
+      ]),
     catch: () =>
       new GitWorktreeError({
         operation: "create",
@@ -74,6 +85,23 @@ const addWorktree = (worktreePath: string, baseRef: string) =>
       }),
   });
 
+const resolveWorktreeCommit = (worktreePath: string) =>
+  Effect.tryPromise({
+    try: async () => {
+      let stdout = "";
+      await exec.exec("git", ["-C", worktreePath, "rev-parse", "HEAD"], {
+        listeners: { stdout: (data: Buffer) => (stdout += data.toString()) },
+        silent: true,
+      });
+      return stdout.trim();
+    },
+    catch: () =>
+      new GitWorktreeError({
+        operation: "rev-parse",
+        message: `Failed to resolve commit of worktree ${worktreePath}`,
+      }),
+  });
+
 export class GitService extends Effect.Service<GitService>()("GitService", {
   succeed: {
     createWorktree: (
@@ -92,10 +120,11 @@ export class GitService extends Effect.Service<GitService>()("GitService", {
           yield* removeWorktree(worktreePath);
           yield* fetchRef(baseRef);
           yield* addWorktree(worktreePath, baseRef);
+          const sha = yield* resolveWorktreeCommit(worktreePath);
           // Save worktree path for cleanup in post action (handles timeout/cancel scenarios)
           yield* Effect.sync(() => core.saveState("worktreePath", worktreePath));
-          yield* Effect.logInfo(`Created worktree for base branch ${baseRef} at ${worktreePath}`);
-          return { path: worktreePath };
+          yield* Effect.logInfo(`Created worktree for base ${baseRef} (${sha}) at ${worktreePath}`);
+          return { path: worktreePath, sha };
         }),
         (worktree) =>
           Effect.gen(function* () {
@@ -1,9 +1,28 @@
+import * as core from "@actions/core";
 import * as github from "@actions/github";
 import { Effect, Option } from "effect";
-import { NotPullRequestContextError, GitHubApiError } from "../errors.js";
-import type { GitHubContext, Octokit, PullRequestPayload, CommentOptions } from "../types.js";
-import type { DiffResult } from "../schemas.js";
-import { hasDixChanges, hasPackageChanges, isOnlyMinorNixpkgsUpdate } from "./utils.js";
+import { UnsupportedEventError, GitHubApiError } from "../errors.js";
+import type {
+  GitHubContext,
+  Octokit,
+  PullRequestPayload,
+  CommentOptions,
+  CommentFormat,
+  DiffTarget,
+} from "../types.js";
+import type { DiffBackend, DiffResult, DixReport, FlakeInputChange } from "../schemas.js";
+import { applyChangeFilters, isFailedResult, type HiddenChange } from "./filter.js";
+import { collectInputChanges, formatInputChanges } from "./flake-lock.js";
+import { sanitizeDisplayName } from "./markdown.js";
+import { formatRebuildEstimate } from "./rebuild.js";
+import { formatSizeBreakdown } from "./closure-size.js";
+import { formatDependencyChains } from "./why-depends.js";
+import { formatDuplicateVersions } from "./duplicates.js";
+import { formatEvalWarnings } from "./warnings.js";
+import { parseDixReport, truncateDixReport } from "./dix.js";
+import { formatDixTable } from "./dix-table.js";
+import { formatPackageMatrix } from "./matrix.js";
+import { renderTemplate, type TemplateNode } from "./template.js";
 
 const NIX_DIFF_ACTION_MARKER_BASE = "<!-- nix-diff-action";
 
@@ -18,13 +37,32 @@ const NIX_DIFF_ACTION_MARKER_BASE = "<!-- nix-diff-action";
 //   Results order may vary (e.g., comment-only mode downloads artifacts in parallel),
 //   so we can't reliably use a specific displayName. Generic marker ensures
 //   the aggregated comment is always found and updated correctly.
-const getNixDiffActionMarker = (displayName?: string): string =>
-  displayName
-    ? `${NIX_DIFF_ACTION_MARKER_BASE}:${displayName} -->`
-    : `${NIX_DIFF_ACTION_MARKER_BASE} -->`;
+//
+// Reports too large for one comment are split into parts. The first part keeps the plain
+// marker; later parts add their number (<!-- nix-diff-action:host1 part=2 -->).
+const getMarkerId = (displayName?: string): string =>
+  displayName ? `${NIX_DIFF_ACTION_MARKER_BASE}:${displayName}` : NIX_DIFF_ACTION_MARKER_BASE;
+
+const getNixDiffActionMarker = (displayName?: string, part = 1): string =>
+  part > 1 ? `${getMarkerId(displayName)} part=${part} -->` : `${getMarkerId(displayName)} -->`;
+
+// Part number of a report comment for displayName, undefined for any other comment
+const getCommentPart = (body: string | undefined, displayName?: string): number | undefined => {
+  if (!body) return undefined;
+  if (body.includes(getNixDiffActionMarker(displayName))) return 1;
+  const prefix = `${getMarkerId(displayName)} part=`;
+  const start = body.indexOf(prefix);
+  if (start === -1) return undefined;
+  const part = Number.parseInt(body.slice(start + prefix.length), 10);
+  return part > 1 ? part : undefined;
+};
 
 // GitHub comment size limit is ~65,536 characters. Use a conservative limit.
 const MAX_COMMENT_LENGTH = 60000;
+// Check run output summaries are limited to 65,535 characters
+const MAX_CHECK_RUN_SUMMARY_LENGTH = 65535;
+// Job summaries are limited to 1 MiB per step
+const MAX_SUMMARY_LENGTH = 1000000;
 // Overhead for header, footer, and per-section markup
 const HEADER_FOOTER_OVERHEAD = 300;
 const PER_SECTION_OVERHEAD = 300;
@@ -42,35 +80,345 @@ export const truncateDiff = (diff: string, maxLength: number): TruncateResult =>
   };
 };
 
-// Remove markdown special characters to prevent formatting disruption
-// Preserves Unicode letters (日本語 etc.), numbers, hyphens, dots, and spaces
-export const sanitizeDisplayName = (text: string): string =>
-  text.replace(/[\\`*_{}[\]()#+!|]/g, "");
+export { sanitizeDisplayName };
+
+// Smallest share of the budget a diff gets, however many attributes there are
+const MIN_DIFF_LENGTH = 1000;
+
+// Share a budget by need: lengths below an even share are granted in full and
+// leave the rest to the longer ones
+export const allocateDiffBudgets = (lengths: readonly number[], total: number): number[] => {
+  const budgets = lengths.map(() => MIN_DIFF_LENGTH);
+  let remaining = total;
+  const byLength = lengths.map((_, i) => i).sort((a, b) => lengths[a] - lengths[b]);
+  byLength.forEach((index, position) => {
+    const granted = Math.min(lengths[index], Math.floor(remaining / (byLength.length - position)));
+    budgets[index] = Math.max(MIN_DIFF_LENGTH, granted);
+    remaining -= granted;
+  });
+  return budgets;
+};
+
+// Tables need a parsed dix report; output with lines the parser did not recognize keeps
+// the raw text so nothing is lost
+const useTable = (
+  result: DiffResult,
+  format: CommentFormat | undefined,
+): result is DiffResult & { report: DixReport } =>
+  format === "table" &&
+  (result.backend ?? "dix") === "dix" &&
+  result.report !== undefined &&
+  result.report.entries.length > 0 &&
+  result.report.unrecognized.length === 0;
 
-// Calculate max diff length per attribute based on total limit and count
-const calculateMaxDiffPerAttribute = (attributeCount: number): number => {
+// Length of the diff body as rendered: the table for table format, else the text
+const renderedDiffLength = (result: DiffResult, format: CommentFormat | undefined): number => {
+  if (isFailedResult(result)) return (result.error ?? "").length;
+  return useTable(result, format)
+    ? formatDixTable(result.report, Number.POSITIVE_INFINITY).text.length
+    : result.diff.length;
+};
+
+// Max diff length of each attribute within a total limit
+const calculateDiffBudgets = (
+  results: readonly DiffResult[],
+  maxLength = MAX_COMMENT_LENGTH,
+  format?: CommentFormat,
+): ((result: DiffResult) => number) => {
   const availableForDiffs =
-    MAX_COMMENT_LENGTH - HEADER_FOOTER_OVERHEAD - PER_SECTION_OVERHEAD * attributeCount;
-  return Math.max(1000, Math.floor(availableForDiffs / attributeCount));
+    maxLength - HEADER_FOOTER_OVERHEAD - PER_SECTION_OVERHEAD * results.length;
+  const budgets = allocateDiffBudgets(
+    results.map((r) => renderedDiffLength(r, format)),
+    availableForDiffs,
+  );
+  const byResult = new Map(results.map((result, i) => [result, budgets[i]]));
+  return (result) => byResult.get(result) ?? MIN_DIFF_LENGTH;
 };
 
 // Check if any diff in results would be truncated
-export const checkIfAnyDiffTruncated = (results: readonly DiffResult[]): boolean => {
-  const maxLength = calculateMaxDiffPerAttribute(results.length);
-  return results.some((r) => r.diff.length > maxLength);
+export const checkIfAnyDiffTruncated = (
+  results: readonly DiffResult[],
+  format?: CommentFormat,
+): boolean => {
+  const diffBudget = calculateDiffBudgets(results, MAX_COMMENT_LENGTH, format);
+  return results.some((r) => renderedDiffLength(r, format) > diffBudget(r));
+};
+
+// dix output is shortened entry by entry so the store paths and the SIZE/DIFF summary
+// survive. Other output, and dix output that does not fit even so, is cut off.
+const truncateResultDiff = (result: DiffResult, maxLength: number): TruncateResult => {
+  const diff = result.diff || "No differences found";
+  if (diff.length <= maxLength || (result.backend ?? "dix") !== "dix" || !result.diff) {
+    return truncateDiff(diff, maxLength);
+  }
+  const shortened = truncateDixReport(result.report ?? parseDixReport(result.diff), maxLength);
+  return shortened === undefined
+    ? truncateDiff(diff, maxLength)
+    : { text: shortened, truncated: true };
+};
+
+const failureLabels: Record<NonNullable<DiffResult["status"]>, string> = {
+  ok: "ok",
+  "eval-failed": "evaluation failed",
+  "build-failed": "build failed",
+  "dix-failed": "diff failed",
+  "timed-out": "timed out",
+};
+
+const backendLabels: Record<DiffBackend, string> = {
+  dix: "dix",
+  nvd: "nvd",
+  "diff-closures": "nix store diff-closures",
+  "nix-diff": "nix-diff",
+};
+
+const backendUrls: Record<DiffBackend, string> = {
+  dix: "https://github.com/faukah/dix",
+  nvd: "https://git.sr.ht/~khumba/nvd",
+  "diff-closures": "https://nix.dev/manual/nix/latest/command-ref/new-cli/nix3-store-diff-closures",
+  "nix-diff": "https://github.com/Gabriella439/nix-diff",
 };
 
 export type FormatCommentOptions = {
   runId?: string;
   repoUrl?: string;
+  // Changes suppressed by filter rules, listed in a collapsed note
+  hidden?: readonly HiddenChange[];
+  // flake.lock changes of all results, including those hidden by filters
+  inputChanges?: readonly FlakeInputChange[];
+  // Raw dix text (default) or tables built from the parsed reports
+  format?: CommentFormat;
+  // Add a package × attribute matrix of identical changes above the sections
+  packageMatrix?: boolean;
+  // User-supplied comment-template replacing the default layout of the comment
+  template?: readonly TemplateNode[];
+  // Link to the workflow run, available to templates
+  runUrl?: string;
+};
+
+// Hidden changes listed before the rest is counted; broad filters across a fleet can
+// hide thousands
+const MAX_HIDDEN_CHANGES = 100;
+
+const formatHiddenChanges = (hidden: readonly HiddenChange[]): string => {
+  if (hidden.length === 0) return "";
+  const listed = hidden
+    .slice(0, MAX_HIDDEN_CHANGES)
+    .map((h) => `- **${sanitizeDisplayName(h.displayName)}**: \`${h.change}\` (${h.reason})`);
+  const omitted = hidden.length - listed.length;
+  return `<details>
+<summary>Hidden changes (${hidden.length})</summary>
+
+${[...listed, ...(omitted > 0 ? [`- ... ${omitted} more`] : [])].join("\n")}
+</details>`;
+};
+
+// One attribute section, or the hidden changes note, with the heading of its group
+type SectionBlock = { heading?: string; text: string };
+
+// Join blocks, putting each group heading before the first block of the group
+const joinSectionBlocks = (blocks: readonly SectionBlock[]): string =>
+  blocks
+    .map((block, i) =>
+      block.heading && block.heading !== blocks[i - 1]?.heading
+        ? `### ${block.heading}\n\n${block.text}`
+        : block.text,
+    )
+    .join("\n\n");
+
+// Shared body of the PR comment and the job summary
+const formatSections = (
+  results: readonly DiffResult[],
+  diffBudget: (result: DiffResult) => number,
+  options?: FormatCommentOptions & { showAttribute?: boolean },
+): string => joinSectionBlocks(formatSectionBlocks(results, diffBudget, options));
+
+const formatSectionBlocks = (
+  results: readonly DiffResult[],
+  diffBudget: (result: DiffResult) => number,
+  options?: FormatCommentOptions & { showAttribute?: boolean },
+): SectionBlock[] => {
+  const formatSection = (result: DiffResult): string => {
+    const table = useTable(result, options?.format)
+      ? formatDixTable(result.report, diffBudget(result))
+      : undefined;
+    const { truncated, text } = table ?? truncateResultDiff(result, diffBudget(result));
+    const artifactHint =
+      truncated && options?.runId && options?.repoUrl
+        ? `\n\n> **Note**: Diff was truncated. [View full diff in artifacts](${options.repoUrl}/actions/runs/${options.runId})`
+        : "";
+    const extras = [
+      result.sizeBreakdown ? formatSizeBreakdown(result.sizeBreakdown) : "",
+      result.evalWarnings ? formatEvalWarnings(result.evalWarnings) : "",
+      result.duplicates ? formatDuplicateVersions(result.duplicates) : "",
+      result.whyDepends ? formatDependencyChains(result.whyDepends, result.whyDependsOmitted) : "",
+    ]
+      .filter((block) => block !== "")
+      .map((block) => `\n${block}\n`)
+      .join("");
+    const details = [
+      options?.showAttribute ? `**Attribute**: \`${result.attributePath}\`` : "",
+      result.rebuild ? formatRebuildEstimate(result.rebuild) : "",
+    ]
+      .filter((line) => line !== "")
+      .map((line) => `${line}\n\n`)
+      .join("");
+
+    return `<details>
+<summary>${sanitizeDisplayName(result.displayName)}</summary>
+
+${details}${table ? `${text}\n` : `\`\`\`\n${text}\n\`\`\`\n`}${extras}${artifactHint}
+</details>`;
+  };
+
+  const formatFailure = (result: DiffResult): string => `<details>
+<summary>${sanitizeDisplayName(result.displayName)} (${failureLabels[result.status ?? "ok"]})</summary>
+
+\`\`\`
+${truncateDiff(result.error || "No error output", diffBudget(result)).text}
+\`\`\`
+</details>`;
+
+  // Attributes that exist on one side only get their own sections below the regular diffs,
+  // followed by attributes that failed under continue-on-error
+  const formatGroup = (
+    predicate: (result: DiffResult) => boolean,
+    format: (result: DiffResult) => string,
+    heading?: string,
+  ): SectionBlock[] =>
+    results.filter(predicate).map((result) => ({ heading, text: format(result) }));
+  const hasChange = (change: NonNullable<DiffResult["change"]>) => (result: DiffResult) =>
+    !isFailedResult(result) && (result.change ?? "changed") === change;
+  const hidden = formatHiddenChanges(options?.hidden ?? []);
+
+  return [
+    ...formatGroup(hasChange("changed"), formatSection),
+    ...formatGroup(hasChange("added"), formatSection, "Added attributes"),
+    ...formatGroup(hasChange("removed"), formatSection, "Removed attributes"),
+    ...formatGroup(isFailedResult, formatFailure, "Failed attributes"),
+    ...(hidden ? [{ text: hidden }] : []),
+  ];
+};
+
+// Records the commit a comment was generated for, used to minimize outdated comments
+const formatFooterMarker = (headSha: string): string =>
+  `<!-- nix-diff-action-footer sha=${headSha} -->`;
+
+const formatCredits = (results: readonly DiffResult[]): string => {
+  const backendLinks = [...new Set(results.map((r) => r.backend ?? "dix"))]
+    .map((backend) => `[${backendLabels[backend]}](${backendUrls[backend]})`)
+    .join(", ");
+  return `<sub>Generated by a [fork](https://github.com/oake/nix-diff-action) of [nix-diff-action](https://github.com/natsukium/nix-diff-action) using ${backendLinks || "[dix](https://github.com/faukah/dix)"}</sub>`;
+};
+
+const formatFooter = (results: readonly DiffResult[], headSha: string): string =>
+  `${formatCredits(results)}
+${formatFooterMarker(headSha)}`;
+
+// Data available to comment templates. Each result also carries its default section,
+// so a template can rearrange the comment without rebuilding every part of it.
+const buildTemplateView = (
+  results: readonly DiffResult[],
+  headSha: string,
+  diffBudget: (result: DiffResult) => number,
+  options?: FormatCommentOptions,
+) => {
+  const views = results.map((result) => {
+    const failed = isFailedResult(result);
+    const { text, truncated } = failed
+      ? truncateDiff(result.error || "No error output", diffBudget(result))
+      : truncateResultDiff(result, diffBudget(result));
+    const count = (section: string) =>
+      result.report?.entries.filter((e) => e.section === section).length;
+    return {
+      displayName: result.displayName,
+      attributePath: result.attributePath,
+      status: result.status ?? "ok",
+      failed,
+      change: result.change ?? "changed",
+      backend: result.backend ?? "dix",
+      diff: text,
+      truncated,
+      error: result.error,
+      section: joinSectionBlocks(formatSectionBlocks([result], diffBudget, options)),
+      changed: count("changed"),
+      added: count("added"),
+      removed: count("removed"),
+      sizeDiff: result.report?.sizeDiff,
+      duration: result.durationMs === undefined ? undefined : formatDuration(result.durationMs),
+    };
+  });
+  const hidden = options?.hidden ?? [];
+
+  return {
+    headSha,
+    shortSha: headSha.slice(0, 7),
+    baseRef: results[0]?.baseRef,
+    prRef: results[0]?.prRef,
+    repoUrl: options?.repoUrl,
+    runUrl: options?.runUrl,
+    truncated: views.some((view) => view.truncated),
+    hasChanges: results.length > 0,
+    results: views,
+    intro: formatIntro(results, options).trimEnd(),
+    hidden: formatHiddenChanges(hidden),
+    hiddenCount: hidden.length,
+    sections: formatSections(results, diffBudget, options),
+    footer: formatCredits(results),
+  };
+};
+
+// The template decides the layout, but the markers stay so that updating and
+// minimizing comments keep working. Output beyond the comment limit is cut off.
+const formatTemplatedComment = (
+  results: readonly DiffResult[],
+  headSha: string,
+  template: readonly TemplateNode[],
+  options?: FormatCommentOptions,
+): string => {
+  const diffBudget = calculateDiffBudgets(
+    results,
+    MAX_COMMENT_LENGTH - formatIntro(results, options).length,
+    options?.format,
+  );
+  const marker =
+    results.length === 1
+      ? getNixDiffActionMarker(results[0].displayName)
+      : getNixDiffActionMarker();
+  const body = truncateDiff(
+    renderTemplate(template, buildTemplateView(results, headSha, diffBudget, options)).trim(),
+    MAX_COMMENT_LENGTH - HEADER_FOOTER_OVERHEAD,
+  ).text;
+
+  return `${marker}
+${body}
+${formatFooterMarker(headSha)}`;
 };
 
+// Report-wide blocks above the attribute sections: flake.lock changes and the package matrix
+const formatIntro = (results: readonly DiffResult[], options?: FormatCommentOptions): string =>
+  [
+    formatInputChanges(options?.inputChanges ?? []),
+    options?.packageMatrix ? formatPackageMatrix(results) : "",
+  ]
+    .filter((block) => block !== "")
+    .map((block) => `${block}\n\n`)
+    .join("");
+
 export const formatAggregatedComment = (
   results: readonly DiffResult[],
   headSha: string,
   options?: FormatCommentOptions,
 ): string => {
-  const maxDiffLength = calculateMaxDiffPerAttribute(results.length);
+  if (options?.template) {
+    return formatTemplatedComment(results, headSha, options.template, options);
+  }
+
+  const diffBudget = calculateDiffBudgets(
+    results,
+    MAX_COMMENT_LENGTH - formatIntro(results, options).length,
+    options?.format,
+  );
   // Single attribute: displayName-specific marker for matrix + update strategy
   // Multiple attributes: generic marker (results order may vary in comment-only mode)
   const marker =
@@ -78,40 +426,155 @@ export const formatAggregatedComment = (
       ? getNixDiffActionMarker(results[0].displayName)
       : getNixDiffActionMarker();
 
-  const sections = results
-    .map((result) => {
-      const { truncated, text } = truncateDiff(
-        result.diff || "No differences found",
-        maxDiffLength,
-      );
-      const artifactHint =
-        truncated && options?.runId && options?.repoUrl
-          ? `\n\n> **Note**: Diff was truncated. [View full diff in artifacts](${options.repoUrl}/actions/runs/${options.runId})`
-          : "";
+  const intro = formatIntro(results, options);
 
-      return `<details>
-<summary>${sanitizeDisplayName(result.displayName)}</summary>
+  return `${marker}
+## Nix Diff
 
-\`\`\`
-${text}
-\`\`\`
-${artifactHint}
-</details>`;
-    })
-    .join("\n\n");
+${intro}${formatSections(results, diffBudget, options)}
 
-  const footer = `<sub>Generated by a [fork](https://github.com/oake/nix-diff-action) of [nix-diff-action](https://github.com/natsukium/nix-diff-action) using [dix](https://github.com/faukah/dix)</sub>
-<!-- nix-diff-action-footer sha=${headSha} -->`;
+${formatFooter(results, headSha)}`;
+};
 
-  return `${marker}
-## Nix Diff
+// Reports that do not fit in one comment without truncation are packed into several
+// comments instead. Sections are never split; only a section too large for a comment
+// of its own is truncated. partUrls, once the parts are posted, link the parts together.
+export const formatAggregatedComments = (
+  results: readonly DiffResult[],
+  headSha: string,
+  options?: FormatCommentOptions,
+  partUrls?: readonly string[],
+): string[] => {
+  const single = formatAggregatedComment(results, headSha, options);
+  // Templated comments are never split, their layout is up to the template
+  if (
+    options?.template ||
+    (!checkIfAnyDiffTruncated(results, options?.format) && single.length <= MAX_COMMENT_LENGTH)
+  ) {
+    return [single];
+  }
+
+  const footer = formatFooter(results, headSha);
+  const budget = MAX_COMMENT_LENGTH - HEADER_FOOTER_OVERHEAD - footer.length;
+  const blockBudget = budget - PER_SECTION_OVERHEAD;
 
-${sections}
+  // A section too large for a comment of its own gets what its details, extras and
+  // markup leave of the budget for the diff
+  const fixedLength = (result: DiffResult) =>
+    joinSectionBlocks(formatSectionBlocks([result], () => 0, { ...options, hidden: [] })).length;
+  const sectionBlocks = formatSectionBlocks(
+    results,
+    (result) => Math.max(MIN_DIFF_LENGTH, blockBudget - fixedLength(result)),
+    options,
+  );
+  // The intro is a block of its own so it counts against the first part like a section
+  const intro = formatIntro(results, options).trimEnd();
+  const blocks = [...(intro ? [{ text: intro }] : []), ...sectionBlocks].map((block) =>
+    // Last resort for blocks whose extras alone do not fit; GitHub rejects longer comments
+    block.text.length > blockBudget
+      ? { ...block, text: truncateDiff(block.text, blockBudget - 100).text }
+      : block,
+  );
+
+  const parts: SectionBlock[][] = [[]];
+  let used = 0;
+  for (const block of blocks) {
+    const size = block.text.length + (block.heading?.length ?? 0) + PER_SECTION_OVERHEAD;
+    if (parts[parts.length - 1].length > 0 && used + size > budget) {
+      parts.push([]);
+      used = 0;
+    }
+    parts[parts.length - 1].push(block);
+    used += size;
+  }
+
+  if (parts.length === 1) {
+    return [single];
+  }
+
+  // Same marker as the single comment, so the caller finds the parts with its displayName
+  const displayName = results.length === 1 ? results[0].displayName : undefined;
+  return parts.map((part, i) => {
+    return `${getNixDiffActionMarker(displayName, i + 1)}
+## Nix Diff (${i + 1}/${parts.length})
+
+${formatPartNavigation(i, parts.length, partUrls)}
+
+${joinSectionBlocks(part)}
 
 ${footer}`;
+  });
 };
 
-// Common: list all comments with nix-diff-action marker
+const formatPartNavigation = (
+  index: number,
+  count: number,
+  partUrls?: readonly string[],
+): string => {
+  const links = Array.from({ length: count }, (_, i) =>
+    i === index || !partUrls?.[i] ? `${i + 1}` : `[${i + 1}](${partUrls[i]})`,
+  );
+  return `> Report split across ${count} comments: ${links.join(" · ")}`;
+};
+
+const formatResultKind = (result: DiffResult): string =>
+  isFailedResult(result)
+    ? `❌ ${failureLabels[result.status ?? "ok"]}`
+    : (result.change ?? "changed");
+
+const formatChangeCounts = (result: DiffResult): string => {
+  if (!result.report) return "-";
+  const count = (section: string) =>
+    result.report?.entries.filter((e) => e.section === section).length;
+  return `${count("changed")} changed, ${count("added")} added, ${count("removed")} removed`;
+};
+
+// Compact human-readable duration for timing columns, e.g. "850ms", "12.3s", "4m 05s"
+export const formatDuration = (ms: number): string => {
+  if (ms < 1000) {
+    return `${Math.round(ms)}ms`;
+  }
+  if (ms < 60000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+};
+
+// Job summaries have a 1 MiB limit instead of the 65k comment limit, so diffs are
+// shown in full and preceded by an overview table
+export const formatJobSummary = (
+  results: readonly DiffResult[],
+  headSha: string,
+  options?: FormatCommentOptions,
+): string => {
+  const diffBudget = calculateDiffBudgets(results, MAX_SUMMARY_LENGTH, options?.format);
+  const compare =
+    options?.repoUrl && results.length > 0
+      ? `Changes: [${results[0].baseRef.slice(0, 7)}...${results[0].prRef.slice(0, 7)}](${options.repoUrl}/compare/${results[0].baseRef}...${results[0].prRef})\n\n`
+      : "";
+  const overview =
+    results.length === 0
+      ? "No meaningful differences found."
+      : `| Attribute | Result | Packages | Size | Time |
+| --- | --- | --- | --- | --- |
+${results
+  .map(
+    (r) =>
+      `| ${sanitizeDisplayName(r.displayName)} | ${formatResultKind(r)} | ${formatChangeCounts(r)} | ${r.report?.sizeDiff ?? "-"} | ${r.durationMs === undefined ? "-" : formatDuration(r.durationMs)} |`,
+  )
+  .join("\n")}`;
+
+  return `## Nix Diff
+
+${compare}${formatIntro(results, options)}${overview}
+
+${formatSections(results, diffBudget, { ...options, showAttribute: true })}
+
+${formatFooter(results, headSha)}`;
+};
+
+// Common: list all comments with nix-diff-action marker, including later parts of split reports
 // If displayName is provided, search for displayName-specific marker
 const listNixDiffComments = (
   octokit: Octokit,
@@ -131,21 +594,9 @@ const listNixDiffComments = (
         message: `Failed to list comments: ${e}`,
       }),
   }).pipe(
-    Effect.map((comments) => {
-      const marker = getNixDiffActionMarker(displayName);
-      return comments.filter((c) => c.body?.includes(marker));
-    }),
-  );
-
-const findExistingNixDiffComment = (
-  octokit: Octokit,
-  context: GitHubContext,
-  prNumber: number,
-  displayName?: string,
-): Effect.Effect<Option.Option<{ id: number }>, GitHubApiError> =>
-  listNixDiffComments(octokit, context, prNumber, displayName).pipe(
-    Effect.map((comments) => Option.fromNullable(comments[0])),
-    Effect.map(Option.map((c) => ({ id: c.id }))),
+    Effect.map((comments) =>
+      comments.filter((c) => getCommentPart(c.body, displayName) !== undefined),
+    ),
   );
 
 const findOldNixDiffComments = (
@@ -240,25 +691,306 @@ const createComment = (octokit: Octokit, context: GitHubContext, prNumber: numbe
       }),
   });
 
-export class GitHubService extends Effect.Service<GitHubService>()("GitHubService", {
-  succeed: {
-    getContext: (): GitHubContext => github.context,
+const deleteComment = (octokit: Octokit, context: GitHubContext, commentId: number) =>
+  Effect.tryPromise({
+    try: () =>
+      octokit.rest.issues.deleteComment({
+        ...context.repo,
+        comment_id: commentId,
+      }),
+    catch: (e) =>
+      new GitHubApiError({
+        operation: "deleteComment",
+        message: `Failed to delete comment: ${e}`,
+      }),
+  });
+
+// Commit comments are used for push events, where there is no PR to comment on.
+// Only the update strategy needs to look them up: a pushed commit never has outdated
+// results to minimize.
+const listNixDiffCommitComments = (
+  octokit: Octokit,
+  context: GitHubContext,
+  commitSha: string,
+  displayName?: string,
+) =>
+  Effect.tryPromise({
+    try: () =>
+      octokit.paginate(octokit.rest.repos.listCommentsForCommit, {
+        ...context.repo,
+        commit_sha: commitSha,
+      }),
+    catch: (e) =>
+      new GitHubApiError({
+        operation: "listCommentsForCommit",
+        message: `Failed to list commit comments: ${e}`,
+      }),
+  }).pipe(
+    Effect.map((comments) =>
+      comments.filter((c) => getCommentPart(c.body, displayName) !== undefined),
+    ),
+  );
+
+const updateCommitComment = (
+  octokit: Octokit,
+  context: GitHubContext,
+  commentId: number,
+  body: string,
+) =>
+  Effect.tryPromise({
+    try: () =>
+      octokit.rest.repos.updateCommitComment({
+        ...context.repo,
+        comment_id: commentId,
+        body,
+      }),
+    catch: (e) =>
+      new GitHubApiError({
+        operation: "updateCommitComment",
+        message: `Failed to update commit comment: ${e}`,
+      }),
+  });
+
+const createCommitComment = (
+  octokit: Octokit,
+  context: GitHubContext,
+  commitSha: string,
+  body: string,
+) =>
+  Effect.tryPromise({
+    try: () =>
+      octokit.rest.repos.createCommitComment({
+        ...context.repo,
+        commit_sha: commitSha,
+        body,
+      }),
+    catch: (e) =>
+      new GitHubApiError({
+        operation: "createCommitComment",
+        message: `Failed to create commit comment: ${e}`,
+      }),
+  });
+
+const deleteCommitComment = (octokit: Octokit, context: GitHubContext, commentId: number) =>
+  Effect.tryPromise({
+    try: () =>
+      octokit.rest.repos.deleteCommitComment({
+        ...context.repo,
+        comment_id: commentId,
+      }),
+    catch: (e) =>
+      new GitHubApiError({
+        operation: "deleteCommitComment",
+        message: `Failed to delete commit comment: ${e}`,
+      }),
+  });
+
+// Where the parts of a report are posted: a PR conversation or a commit
+type CommentThread = {
+  label: string;
+  list: Effect.Effect<readonly { id: number; body?: string; html_url: string }[], GitHubApiError>;
+  create: (body: string) => Effect.Effect<{ id: number; html_url: string }, GitHubApiError>;
+  update: (id: number, body: string) => Effect.Effect<unknown, GitHubApiError>;
+  remove: (id: number) => Effect.Effect<unknown, GitHubApiError>;
+};
+
+// Post every part of a report. The update strategy edits the existing comment of each
+// part and deletes parts a previous, longer report left behind. Split reports are
+// linked together once all parts have a URL.
+const publishCommentParts = (
+  thread: CommentThread,
+  renderParts: (partUrls?: readonly string[]) => readonly string[],
+  commentStrategy: CommentOptions["commentStrategy"],
+  displayName?: string,
+): Effect.Effect<void, GitHubApiError> =>
+  Effect.gen(function* () {
+    const bodies = renderParts();
+    const existing = new Map<number, { id: number; html_url: string }>();
+    if (commentStrategy === "update") {
+      for (const comment of yield* thread.list) {
+        const part = getCommentPart(comment.body, displayName);
+        if (part !== undefined && !existing.has(part)) {
+          existing.set(part, comment);
+        }
+      }
+    }
 
-    getPullRequest: (): Effect.Effect<PullRequestPayload, NotPullRequestContextError> =>
+    const partLabel = (i: number) => (bodies.length > 1 ? ` (part ${i + 1}/${bodies.length})` : "");
+    const posted = yield* Effect.forEach(bodies, (body, i) =>
       Effect.gen(function* () {
-        const pr = github.context.payload.pull_request;
-        if (!pr) {
-          return yield* Effect.fail(
-            new NotPullRequestContextError({
-              message: "This action must be run in a pull request context",
-            }),
-          );
+        const current = existing.get(i + 1);
+        if (current) {
+          yield* thread.update(current.id, body);
+          yield* Effect.logInfo(`Updated existing diff comment on ${thread.label}${partLabel(i)}`);
+          return current;
         }
-        return pr as PullRequestPayload;
+        const created = yield* thread.create(body);
+        yield* Effect.logInfo(
+          `Posted new aggregated diff comment to ${thread.label}${partLabel(i)}`,
+        );
+        return created;
       }),
+    );
+
+    for (const [part, comment] of existing) {
+      if (part > bodies.length) {
+        yield* thread.remove(comment.id);
+        yield* Effect.logInfo(`Deleted leftover diff comment part ${part} on ${thread.label}`);
+      }
+    }
+
+    if (bodies.length > 1) {
+      const linked = renderParts(posted.map((comment) => comment.html_url));
+      yield* Effect.forEach(posted, (comment, i) => thread.update(comment.id, linked[i]));
+    }
+  });
+
+// Filter results and render the comment body; None when skip-no-change leaves nothing to post
+const renderComment = (
+  results: readonly DiffResult[],
+  headSha: string,
+  options: CommentOptions,
+  formatOptions?: FormatCommentOptions,
+): Effect.Effect<
+  Option.Option<{
+    body: string;
+    // The comment split into parts when it is too large, see formatAggregatedComments
+    parts: (partUrls?: readonly string[]) => string[];
+    displayName?: string;
+    visible: readonly DiffResult[];
+  }>
+> =>
+  Effect.gen(function* () {
+    const { visible: visibleResults, hidden } = applyChangeFilters(results, options.filters);
+    // flake.lock changes are reported even when filters hide every package change
+    const inputChanges = collectInputChanges(results);
+    if (options.skipNoChange && visibleResults.length === 0 && inputChanges.length === 0) {
+      yield* Effect.logInfo(
+        `No meaningful differences found (${hidden.length} hidden by filters). Skipping comment (skip-no-change is enabled).`,
+      );
+      return Option.none();
+    }
+
+    const commentOptions = {
+      ...formatOptions,
+      hidden,
+      inputChanges,
+    };
+    const body = formatAggregatedComment(visibleResults, headSha, commentOptions);
+    const parts = (partUrls?: readonly string[]) =>
+      formatAggregatedComments(visibleResults, headSha, commentOptions, partUrls);
+    // Use displayName-specific marker for single attribute
+    const displayName = visibleResults.length === 1 ? visibleResults[0].displayName : undefined;
+    return Option.some({ body, parts, displayName, visible: visibleResults });
+  });
+
+const CHECK_RUN_NAME = "nix-diff";
+
+const formatCheckRunTitle = (visible: readonly DiffResult[]): string => {
+  const failed = visible.filter(isFailedResult).length;
+  const differing = visible.length - failed;
+  if (visible.length === 0) {
+    return "No differences found";
+  }
+  return failed > 0
+    ? `${differing} attribute(s) with differences, ${failed} failed`
+    : `${differing} attribute(s) with differences`;
+};
+
+const ZERO_SHA = /^0+$/;
+
+/**
+ * Resolve the base and head commits to compare from the triggering event.
+ * Pull requests compare the PR base with its head; pushes compare `before` with `after`;
+ * merge queues compare the target branch with the combined merge group commit.
+ */
+export const resolveDiffTarget = (
+  context: Pick<GitHubContext, "eventName" | "payload" | "ref" | "sha">,
+): Effect.Effect<DiffTarget, UnsupportedEventError> =>
+  Effect.gen(function* () {
+    const pr = context.payload.pull_request as PullRequestPayload | undefined;
+    if (pr) {
+      return {
+        event: "pull_request" as const,
+        number: pr.number,
+        base: { ref: pr.base.ref, sha: pr.base.sha },
+        head: { ref: pr.head.ref, sha: pr.head.sha },
+      };
+    }
+
+    if (context.eventName === "push") {
+      const before = context.payload.before as string | undefined;
+      if (!before || ZERO_SHA.test(before)) {
+        return yield* Effect.fail(
+          new UnsupportedEventError({
+            message: `Push to ${context.ref} has no previous commit to compare against (new branch or tag)`,
+          }),
+        );
+      }
+      const after = (context.payload.after as string | undefined) ?? context.sha;
+      return {
+        event: "push" as const,
+        base: { ref: before, sha: before },
+        head: { ref: context.ref.replace(/^refs\/(heads|tags)\//, ""), sha: after },
+      };
+    }
+
+    const mergeGroup = context.payload.merge_group as
+      | { base_ref: string; base_sha: string; head_ref: string; head_sha: string }
+      | undefined;
+    if (context.eventName === "merge_group" && mergeGroup) {
+      return {
+        event: "merge_group" as const,
+        base: { ref: mergeGroup.base_ref.replace(/^refs\/heads\//, ""), sha: mergeGroup.base_sha },
+        head: { ref: mergeGroup.head_ref.replace(/^refs\/heads\//, ""), sha: mergeGroup.head_sha },
+      };
+    }
+
+    return yield* Effect.fail(
+      new UnsupportedEventError({
+        message: `This action must be run on a pull_request, push or merge_group event (got ${context.eventName})`,
+      }),
+    );
+  });
+
+export class GitHubService extends Effect.Service<GitHubService>()("GitHubService", {
+  succeed: {
+    getContext: (): GitHubContext => github.context,
+
+    getDiffTarget: (): Effect.Effect<DiffTarget, UnsupportedEventError> =>
+      resolveDiffTarget(github.context),
 
     createOctokit: (token: string): Octokit => github.getOctokit(token),
 
+    getMergeBase: (
+      octokit: Octokit,
+      context: GitHubContext,
+      base: string,
+      head: string,
+    ): Effect.Effect<string, GitHubApiError> =>
+      Effect.tryPromise({
+        try: () =>
+          octokit.rest.repos.compareCommitsWithBasehead({
+            ...context.repo,
+            basehead: `${base}...${head}`,
+          }),
+        catch: (e) =>
+          new GitHubApiError({
+            operation: "compareCommits",
+            message: `Failed to find merge-base of ${base} and ${head}: ${e}`,
+          }),
+      }).pipe(Effect.map((response) => response.data.merge_base_commit.sha)),
+
+    writeJobSummary: (markdown: string): Effect.Effect<void, GitHubApiError> =>
+      Effect.tryPromise({
+        try: () => core.summary.addRaw(markdown, true).write(),
+        catch: (e) =>
+          new GitHubApiError({
+            operation: "writeJobSummary",
+            message: `Failed to write job summary: ${e}`,
+          }),
+      }).pipe(Effect.flatMap(() => Effect.logInfo("Wrote diff results to job summary"))),
+
     postAggregatedComment: (
       octokit: Octokit,
       context: GitHubContext,
@@ -268,46 +1000,111 @@ export class GitHubService extends Effect.Service<GitHubService>()("GitHubServic
       formatOptions?: FormatCommentOptions,
     ): Effect.Effect<void, GitHubApiError> =>
       Effect.gen(function* () {
-        const visibleResults = results.filter(
-          (r) =>
-            hasDixChanges(r.diff) && hasPackageChanges(r.diff) && !isOnlyMinorNixpkgsUpdate(r.diff),
-        );
-        if (options.skipNoChange && visibleResults.length === 0) {
-          return yield* Effect.logInfo(
-            "No meaningful differences found. Skipping comment (skip-no-change is enabled).",
-          );
-        }
-
-        const commentBody = formatAggregatedComment(visibleResults, pr.head.sha, formatOptions);
-        // Use displayName-specific marker for single attribute
-        const displayName = visibleResults.length === 1 ? visibleResults[0].displayName : undefined;
-
-        if (options.commentStrategy === "update") {
-          const existing = yield* findExistingNixDiffComment(
-            octokit,
-            context,
-            pr.number,
-            displayName,
-          );
-          return yield* Option.match(existing, {
-            onNone: () =>
-              Effect.gen(function* () {
-                yield* createComment(octokit, context, pr.number, commentBody);
-                yield* Effect.logInfo("Posted new aggregated diff comment to PR");
-              }),
-            onSome: (e) =>
-              Effect.gen(function* () {
-                yield* updateComment(octokit, context, e.id, commentBody);
-                yield* Effect.logInfo("Updated existing diff comment");
-              }),
-          });
+        const rendered = yield* renderComment(results, pr.head.sha, options, formatOptions);
+        if (Option.isNone(rendered)) {
+          return;
         }
+        const { parts, displayName } = rendered.value;
 
         if (options.commentStrategy === "create") {
           yield* minimizeOldComments(octokit, context, pr.number, pr.head.sha, displayName);
         }
-        yield* createComment(octokit, context, pr.number, commentBody);
-        yield* Effect.logInfo("Posted new aggregated diff comment to PR");
+        yield* publishCommentParts(
+          {
+            label: "PR",
+            list: listNixDiffComments(octokit, context, pr.number, displayName),
+            create: (body) =>
+              createComment(octokit, context, pr.number, body).pipe(
+                Effect.map((response) => response.data),
+              ),
+            update: (id, body) => updateComment(octokit, context, id, body),
+            remove: (id) => deleteComment(octokit, context, id),
+          },
+          parts,
+          options.commentStrategy,
+          displayName,
+        );
+      }),
+
+    postCommitComment: (
+      octokit: Octokit,
+      context: GitHubContext,
+      commitSha: string,
+      results: readonly DiffResult[],
+      options: CommentOptions,
+      formatOptions?: FormatCommentOptions,
+    ): Effect.Effect<void, GitHubApiError> =>
+      Effect.gen(function* () {
+        const rendered = yield* renderComment(results, commitSha, options, formatOptions);
+        if (Option.isNone(rendered)) {
+          return;
+        }
+        const { parts, displayName } = rendered.value;
+
+        yield* publishCommentParts(
+          {
+            label: `commit ${commitSha}`,
+            list: listNixDiffCommitComments(octokit, context, commitSha, displayName),
+            create: (body) =>
+              createCommitComment(octokit, context, commitSha, body).pipe(
+                Effect.map((response) => response.data),
+              ),
+            update: (id, body) => updateCommitComment(octokit, context, id, body),
+            remove: (id) => deleteCommitComment(octokit, context, id),
+          },
+          parts,
+          options.commentStrategy,
+          displayName,
+        );
+      }),
+
+    // Merge groups have no PR or commit to comment on, so results are published as a check run.
+    // It is created even when there is nothing to report and always has the same name,
+    // so it can be a required check.
+    createCheckRun: (
+      octokit: Octokit,
+      context: GitHubContext,
+      headSha: string,
+      results: readonly DiffResult[],
+      options: CommentOptions,
+      formatOptions?: FormatCommentOptions,
+    ): Effect.Effect<void, GitHubApiError> =>
+      Effect.gen(function* () {
+        const rendered = yield* renderComment(
+          results,
+          headSha,
+          { ...options, skipNoChange: false },
+          formatOptions,
+        );
+        if (Option.isNone(rendered)) {
+          return;
+        }
+        const { visible } = rendered.value;
+        // Diff budgets keep a minimum per attribute and do not count the analysis blocks,
+        // so with many attributes the report can still exceed the limit; cut it off like
+        // a templated comment instead of failing the job
+        const body = truncateDiff(
+          rendered.value.body,
+          MAX_CHECK_RUN_SUMMARY_LENGTH - HEADER_FOOTER_OVERHEAD,
+        ).text;
+
+        yield* Effect.tryPromise({
+          try: () =>
+            octokit.rest.checks.create({
+              ...context.repo,
+              name: CHECK_RUN_NAME,
+              head_sha: headSha,
+              status: "completed",
+              conclusion: visible.some(isFailedResult) ? "failure" : "success",
+              output: { title: formatCheckRunTitle(visible), summary: body },
+            }),
+          catch: (e) =>
+            new GitHubApiError({
+              operation: "createCheckRun",
+              message: `Failed to create check run: ${e}`,
+            }),
+        });
+        yield* Effect.logInfo(`Created check run for ${headSha}`);
       }),
   },
 }) {}
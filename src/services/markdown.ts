@@ -0,0 +1,18 @@
+// Markdown helpers shared by the report renderers
+
+// Remove markdown special characters to prevent formatting disruption
+// Preserves Unicode letters (日本語 etc.), numbers, hyphens, dots, and spaces
+export const sanitizeDisplayName = (text: string): string =>
+  text.replace(/[\\`*_{}[\]()#+!|]/g, "");
+
+// Binary-prefixed size as printed by nix and dix, e.g. "45.7 MiB"
+export const formatBytes = (bytes: number): string => {
+  const units = ["B", "KiB", "MiB", "GiB", "TiB"];
+  let value = Math.abs(bytes);
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${bytes < 0 ? "-" : ""}${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
@@ -0,0 +1,78 @@
+import type { DiffResult, DixEntry } from "../schemas.js";
+import { isFailedResult } from "./filter.js";
+import { sanitizeDisplayName } from "./markdown.js";
+
+// A package change that is identical in one or more attributes
+export type PackageTransition = {
+  section: DixEntry["section"];
+  name: string;
+  before: readonly string[];
+  after: readonly string[];
+  attributes: string[];
+};
+
+// Group the dix entries of all results by identical transition, most widespread first
+export const groupPackageTransitions = (results: readonly DiffResult[]): PackageTransition[] => {
+  const groups = new Map<string, PackageTransition>();
+  for (const result of results) {
+    if (isFailedResult(result) || !result.report) continue;
+    for (const entry of result.report.entries) {
+      const key = JSON.stringify([entry.section, entry.name, entry.before, entry.after]);
+      const group = groups.get(key) ?? {
+        section: entry.section,
+        name: entry.name,
+        before: entry.before,
+        after: entry.after,
+        attributes: [],
+      };
+      if (!group.attributes.includes(result.displayName)) {
+        group.attributes.push(result.displayName);
+      }
+      groups.set(key, group);
+    }
+  }
+  return [...groups.values()].sort(
+    (a, b) => b.attributes.length - a.attributes.length || a.name.localeCompare(b.name),
+  );
+};
+
+const formatTransition = (transition: PackageTransition): string => {
+  switch (transition.section) {
+    case "changed":
+      return `${transition.before.join(", ")} → ${transition.after.join(", ")}`;
+    case "added":
+      return `added ${transition.after.join(", ")}`.trimEnd();
+    case "removed":
+      return `removed ${transition.before.join(", ")}`.trimEnd();
+  }
+};
+
+// Rows shown before the rest is summarized; a fleet-wide update can touch hundreds of packages
+const MAX_MATRIX_ROWS = 50;
+
+// Package × attribute matrix placed above the per-attribute sections. Only useful when
+// there are at least two attributes with parsed dix reports.
+export const formatPackageMatrix = (results: readonly DiffResult[]): string => {
+  const attributes = results
+    .filter((result) => !isFailedResult(result) && result.report !== undefined)
+    .map((result) => result.displayName);
+  const transitions = groupPackageTransitions(results);
+  if (attributes.length < 2 || transitions.length === 0) return "";
+
+  const rows = transitions
+    .slice(0, MAX_MATRIX_ROWS)
+    .map(
+      (transition) =>
+        `| ${sanitizeDisplayName(transition.name)} | ${formatTransition(transition)} | ${attributes.map((attribute) => (transition.attributes.includes(attribute) ? "✓" : "")).join(" | ")} |`,
+    );
+  const omitted = transitions.length - rows.length;
+
+  return [
+    "### Package changes",
+    "",
+    `| Package | Change | ${attributes.map(sanitizeDisplayName).join(" | ")} |`,
+    `| --- | --- | ${attributes.map(() => ":-:").join(" | ")} |`,
+    ...rows,
+    ...(omitted > 0 ? ["", `... ${omitted} more changes, see the sections below`] : []),
+  ].join("\n");
+};
@@ -1,6 +1,13 @@
-import * as exec from "@actions/exec";
-import { Effect, Ref } from "effect";
-import { NixPathInfoError, NixDixError, NixBuildError } from "../errors.js";
+import { spawn } from "node:child_process";
+import { Effect, FiberRef, Ref } from "effect";
+import type { DiffBackend, RebuildEstimate } from "../schemas.js";
+import type { EvalJob } from "../types.js";
+import { splitAttributePath, stripAnsi } from "./utils.js";
+import { parseDryRunOutput } from "./rebuild.js";
+import { parsePathInfoSizes } from "./closure-size.js";
+import { parseWhyDependsOutput } from "./why-depends.js";
+import { extractWarnings } from "./warnings.js";
+import { NixPathInfoError, NixDixError, NixBuildError, NixEvalError } from "../errors.js";
 
 interface ExecResult {
   exitCode: number;
@@ -8,29 +15,100 @@ interface ExecResult {
   stderr: string;
 }
 
+// Per-fiber settings applied to every nix invocation, set with Effect.locally
+export type NixInvocationSettings = {
+  // Validated nix-args (global and per-attribute), added to every invocation
+  extraArgs?: readonly string[];
+  // Collects evaluation warnings and traces from stderr, which is otherwise only
+  // looked at when a command fails
+  warnings?: Ref.Ref<readonly string[]>;
+};
+
+export const currentNixInvocation = FiberRef.unsafeMake<NixInvocationSettings>({});
+
+// Flags that only target the flakes being compared, with the number of values they take.
+// `nix run` takes the diff tools from nixpkgs and runs them on the runner, so they are
+// dropped for run invocations: an overridden nixpkgs could swap the tool, and a tool
+// built for another --system could not run.
+const comparedFlakeFlags: Readonly<Record<string, number>> = {
+  "--override-input": 2,
+  "--system": 1,
+};
+
+// Insert extra arguments before any "--" separating the arguments of the program being run.
+export const applyExtraArgs = (args: string[], extraArgs: readonly string[] = []): string[] => {
+  const extra: string[] = [];
+  for (let i = 0; i < extraArgs.length; i++) {
+    if (args[0] === "run" && extraArgs[i] in comparedFlakeFlags) {
+      i += comparedFlakeFlags[extraArgs[i]];
+      continue;
+    }
+    extra.push(extraArgs[i]);
+  }
+  const separator = args.indexOf("--");
+  return separator === -1
+    ? [...args, ...extra]
+    : [...args.slice(0, separator), ...extra, ...args.slice(separator)];
+};
+
+// Time nix gets to exit after SIGTERM before it is killed
+const KILL_GRACE_MS = 10000;
+
+// Run nix with its output echoed to the log, like @actions/exec, and return the exit code.
+// Interrupting the effect (e.g. an attribute timeout) terminates the process and waits
+// for it to exit, so a timed-out evaluation does not keep using the runner.
+const spawnNix = (
+  args: readonly string[],
+  listeners: { stdout?: (data: Buffer) => void; stderr?: (data: Buffer) => void } = {},
+): Effect.Effect<number, Error> =>
+  Effect.async<number, Error>((resume) => {
+    process.stdout.write(`[command]nix ${args.join(" ")}\n`);
+    const child = spawn("nix", args, {
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    child.stdout.on("data", (data: Buffer) => {
+      process.stdout.write(data);
+      listeners.stdout?.(data);
+    });
+    child.stderr.on("data", (data: Buffer) => {
+      process.stderr.write(data);
+      listeners.stderr?.(data);
+    });
+    child.on("error", (error) => resume(Effect.fail(error)));
+    child.on("close", (code) => resume(Effect.succeed(code ?? -1)));
+
+    return Effect.async<void>((exited) => {
+      if (child.exitCode !== null || child.signalCode !== null) {
+        return exited(Effect.void);
+      }
+      const kill = setTimeout(() => child.kill("SIGKILL"), KILL_GRACE_MS);
+      child.once("close", () => {
+        clearTimeout(kill);
+        exited(Effect.void);
+      });
+      child.kill("SIGTERM");
+    });
+  });
+
 // Execute nix command and collect output
 // Uses mutable arrays outside Effect to avoid Effect.runSync in callbacks,
 // which breaks Effect's composability guarantees
 // Returns ExecResult with exitCode -1 if exec itself fails (e.g., nix binary not found)
-const execNix = (args: string[], ignoreReturnCode = true): Effect.Effect<ExecResult, never> => {
+const execNix = (args: string[]): Effect.Effect<ExecResult, never> => {
   const stdoutChunks: string[] = [];
   const stderrChunks: string[] = [];
 
-  return Effect.tryPromise({
-    try: () =>
-      exec.exec("nix", args, {
-        listeners: {
-          stdout: (data: Buffer) => {
-            stdoutChunks.push(data.toString());
-          },
-          stderr: (data: Buffer) => {
-            stderrChunks.push(data.toString());
-          },
+  return FiberRef.get(currentNixInvocation).pipe(
+    Effect.flatMap((settings) =>
+      spawnNix(applyExtraArgs(args, settings.extraArgs), {
+        stdout: (data) => {
+          stdoutChunks.push(data.toString());
+        },
+        stderr: (data) => {
+          stderrChunks.push(data.toString());
         },
-        ignoreReturnCode,
       }),
-    catch: (error) => error,
-  }).pipe(
+    ),
     Effect.catchAll((error) =>
       Effect.logWarning(`nix exec failed unexpectedly: ${error}`).pipe(Effect.as(-1)),
     ),
@@ -39,18 +117,143 @@ const execNix = (args: string[], ignoreReturnCode = true): Effect.Effect<ExecRes
       stdout: stdoutChunks.join("").trim(),
       stderr: stderrChunks.join("").trim(),
     })),
+    Effect.tap(({ stderr }) =>
+      FiberRef.get(currentNixInvocation).pipe(
+        Effect.flatMap(({ warnings }) =>
+          warnings === undefined
+            ? Effect.void
+            : Ref.update(warnings, (collected) => [...collected, ...extractWarnings(stderr)]),
+        ),
+      ),
+    ),
   );
 };
 
 const execPrefetch = (flakeRef: string) =>
-  Effect.tryPromise({
-    try: () =>
-      exec.exec("nix", ["flake", "prefetch-inputs", flakeRef], {
-        ignoreReturnCode: true,
-        listeners: { stderr: () => {} },
-      }),
-    catch: () => new Error("prefetch failed"),
-  }).pipe(Effect.orElseSucceed(() => 1));
+  FiberRef.get(currentNixInvocation).pipe(
+    Effect.flatMap((settings) =>
+      spawnNix(applyExtraArgs(["flake", "prefetch-inputs", flakeRef], settings.extraArgs)),
+    ),
+    Effect.orElseSucceed(() => 1),
+  );
+
+// nix arguments for each diff backend. Tools from nixpkgs are resolved with --inputs-from,
+// nix store diff-closures is built into nix itself.
+const diffBackendArgs: Record<
+  DiffBackend,
+  (basePath: string, prPath: string, inputsFromRef: string) => string[]
+> = {
+  dix: (basePath, prPath, inputsFromRef) => [
+    "run",
+    "nixpkgs#dix",
+    "--inputs-from",
+    inputsFromRef,
+    "--",
+    basePath,
+    prPath,
+  ],
+  nvd: (basePath, prPath, inputsFromRef) => [
+    "run",
+    "nixpkgs#nvd",
+    "--inputs-from",
+    inputsFromRef,
+    "--",
+    "--color=never",
+    "diff",
+    basePath,
+    prPath,
+  ],
+  "diff-closures": (basePath, prPath) => ["store", "diff-closures", basePath, prPath],
+  "nix-diff": (basePath, prPath, inputsFromRef) => [
+    "run",
+    "nixpkgs#nix-diff",
+    "--inputs-from",
+    inputsFromRef,
+    "--",
+    "--color",
+    "never",
+    basePath,
+    prPath,
+  ],
+};
+
+// Locked reference and store copy of a flake, as printed by `nix flake metadata --json`
+type FlakeMetadata = {
+  path: string;
+  locked: {
+    narHash?: string;
+    lastModified?: number;
+    rev?: string;
+    revCount?: number;
+    dir?: string;
+  };
+};
+
+// Reference the store copy of a flake by its narHash, which builtins.getFlake accepts in
+// pure evaluation mode. The git metadata is carried over so self.rev and
+// self.lastModified evaluate as they do for the original reference.
+export const lockedPathFlakeRef = ({ path, locked }: FlakeMetadata): string | undefined => {
+  if (locked.narHash === undefined) {
+    return undefined;
+  }
+  const params = new URLSearchParams({ narHash: locked.narHash });
+  if (locked.rev !== undefined) params.set("rev", locked.rev);
+  if (locked.revCount !== undefined) params.set("revCount", String(locked.revCount));
+  if (locked.lastModified !== undefined) params.set("lastModified", String(locked.lastModified));
+  if (locked.dir !== undefined) params.set("dir", locked.dir);
+  return `path:${path}?${params}`;
+};
+
+// nix-eval-jobs only evaluates a single expression, so all attributes are gathered into
+// one attrset keyed by their position. Attribute paths are validated (and wildcard matches
+// quoted), so they can be spliced into the expression as-is.
+export const buildEvalJobsExpression = (
+  flakeRef: string,
+  attributes: readonly string[],
+): string => {
+  const ref = JSON.stringify(flakeRef).replace(/\$\{/g, "\\${");
+  const jobs = attributes.map((attribute, i) => `  job${i} = flake.${attribute};`).join("\n");
+  return `let flake = builtins.getFlake ${ref}; in {\n${jobs}\n}`;
+};
+
+// Parse the JSON lines streamed by nix-eval-jobs back into results per attribute.
+// Lines that are not JSON (e.g. trace output) are skipped.
+export const parseEvalJobsOutput = (
+  stdout: string,
+  attributes: readonly string[],
+): ReadonlyMap<string, EvalJob> => {
+  const jobs = new Map<string, EvalJob>();
+  for (const line of stdout.split("\n")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    // Lines such as "null" or "42" parse too, but are not jobs
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      continue;
+    }
+    const job = parsed as {
+      attr?: unknown;
+      drvPath?: string;
+      outputs?: Record<string, string>;
+      error?: string;
+    };
+    const index = typeof job.attr === "string" ? job.attr.match(/^job(\d+)$/)?.[1] : undefined;
+    const attribute = index === undefined ? undefined : attributes[Number(index)];
+    if (attribute === undefined) {
+      continue;
+    }
+    jobs.set(
+      attribute,
+      job.error !== undefined || job.drvPath === undefined
+        ? { error: job.error ?? "nix-eval-jobs returned no derivation" }
+        : { drvPath: job.drvPath, outputs: job.outputs ?? {} },
+    );
+  }
+  return jobs;
+};
 
 export class NixService extends Effect.Service<NixService>()("NixService", {
   effect: Effect.gen(function* () {
@@ -71,6 +274,130 @@ export class NixService extends Effect.Service<NixService>()("NixService", {
           }
         }),
 
+      // List attribute names of the attrset at flakeRef (used for wildcard expansion)
+      getAttributeNames: (flakeRef: string): Effect.Effect<readonly string[], NixEvalError> =>
+        Effect.gen(function* () {
+          const { exitCode, stdout, stderr } = yield* execNix([
+            "eval",
+            "--json",
+            flakeRef,
+            "--apply",
+            "builtins.attrNames",
+          ]);
+
+          if (exitCode !== 0) {
+            return yield* Effect.fail(
+              new NixEvalError({
+                flakeRef,
+                message: stderr || "unknown error",
+              }),
+            );
+          }
+
+          return yield* Effect.try({
+            try: () => JSON.parse(stdout) as string[],
+            catch: () =>
+              new NixEvalError({
+                flakeRef,
+                message: `nix eval returned invalid JSON: ${stdout}`,
+              }),
+          });
+        }),
+
+      // Check whether attribute exists in the flake without building or fully evaluating it.
+      // Missing flake outputs fail with "does not provide attribute", which is reported as false.
+      hasAttribute: (flakeRef: string, attribute: string): Effect.Effect<boolean, NixEvalError> =>
+        Effect.gen(function* () {
+          const [output, ...rest] = splitAttributePath(attribute);
+          const { exitCode, stdout, stderr } = yield* execNix([
+            "eval",
+            "--json",
+            `${flakeRef}#${output}`,
+            "--apply",
+            rest.length > 0 ? `x: x ? ${rest.join(".")}` : "_: true",
+          ]);
+
+          if (exitCode !== 0) {
+            return stderr.includes("does not provide attribute")
+              ? false
+              : yield* Effect.fail(
+                  new NixEvalError({
+                    flakeRef: `${flakeRef}#${attribute}`,
+                    message: stderr || "unknown error",
+                  }),
+                );
+          }
+
+          return stdout === "true";
+        }),
+
+      // List all store paths in the closure of path (including path itself)
+      getClosurePaths: (path: string): Effect.Effect<readonly string[], NixPathInfoError> =>
+        Effect.gen(function* () {
+          const { exitCode, stdout, stderr } = yield* execNix(["path-info", "--recursive", path]);
+
+          if (exitCode !== 0) {
+            return yield* Effect.fail(
+              new NixPathInfoError({
+                flakeRef: path,
+                message: stderr || "unknown error",
+              }),
+            );
+          }
+
+          return stdout.split("\n").filter((line) => line !== "");
+        }),
+
+      getClosureSizes: (
+        path: string,
+      ): Effect.Effect<ReadonlyMap<string, number>, NixPathInfoError> =>
+        Effect.gen(function* () {
+          const { exitCode, stdout, stderr } = yield* execNix([
+            "path-info",
+            "--recursive",
+            "--json",
+            path,
+          ]);
+
+          if (exitCode !== 0) {
+            return yield* Effect.fail(
+              new NixPathInfoError({
+                flakeRef: path,
+                message: stderr || "unknown error",
+              }),
+            );
+          }
+
+          return yield* Effect.try({
+            try: () => parsePathInfoSizes(stdout),
+            catch: (e) =>
+              new NixPathInfoError({
+                flakeRef: path,
+                message: `Failed to parse path-info output: ${e instanceof Error ? e.message : String(e)}`,
+              }),
+          });
+        }),
+
+      // Shortest chain of references from path to dependency, both realised store paths
+      whyDepends: (
+        path: string,
+        dependency: string,
+      ): Effect.Effect<readonly string[], NixPathInfoError> =>
+        Effect.gen(function* () {
+          const { exitCode, stdout, stderr } = yield* execNix(["why-depends", path, dependency]);
+
+          if (exitCode !== 0) {
+            return yield* Effect.fail(
+              new NixPathInfoError({
+                flakeRef: path,
+                message: stderr || "unknown error",
+              }),
+            );
+          }
+
+          return parseWhyDependsOutput(stdout);
+        }),
+
       getNixPath: (
         flakeRef: string,
         build: boolean,
@@ -114,11 +441,101 @@ export class NixService extends Effect.Service<NixService>()("NixService", {
           return stdout;
         }),
 
+      // Evaluate all attributes of flakeRef in a single nix-eval-jobs run.
+      // Like the diff tools, nix-eval-jobs is taken from the base worktree's nixpkgs.
+      // Only fails when nix-eval-jobs produced no results at all; per-attribute
+      // evaluation errors are returned in the map.
+      evaluateJobs: (
+        flakeRef: string,
+        attributes: readonly string[],
+        inputsFromPath: string,
+        workers: number,
+      ): Effect.Effect<ReadonlyMap<string, EvalJob>, NixEvalError> =>
+        Effect.gen(function* () {
+          if (attributes.length === 0) {
+            return new Map();
+          }
+
+          // nix-eval-jobs evaluates in its own process, so it gets the nix-args as well.
+          // --override-input is rejected with this evaluator when the config is loaded.
+          const { extraArgs = [] } = yield* FiberRef.get(currentNixInvocation);
+
+          // The PR flake is untrusted code: evaluate it in pure mode, where it cannot read
+          // the environment (and the GitHub token in it) or fetch unhashed URLs. Pure
+          // builtins.getFlake only loads locked references, so lock the flake first.
+          const metadata = yield* execNix(["flake", "metadata", "--json", flakeRef]);
+          if (metadata.exitCode !== 0) {
+            return yield* Effect.fail(
+              new NixEvalError({ flakeRef, message: metadata.stderr || "unknown error" }),
+            );
+          }
+          const lockedRef = yield* Effect.try({
+            try: () => lockedPathFlakeRef(JSON.parse(metadata.stdout) as FlakeMetadata),
+            catch: () =>
+              new NixEvalError({
+                flakeRef,
+                message: `nix flake metadata returned invalid JSON: ${metadata.stdout}`,
+              }),
+          });
+          if (lockedRef === undefined) {
+            return yield* Effect.fail(
+              new NixEvalError({ flakeRef, message: "nix flake metadata returned no narHash" }),
+            );
+          }
+
+          const { exitCode, stdout, stderr } = yield* execNix([
+            "run",
+            "nixpkgs#nix-eval-jobs",
+            "--inputs-from",
+            `path:${inputsFromPath}`,
+            "--",
+            "--workers",
+            String(workers),
+            ...extraArgs,
+            "--expr",
+            buildEvalJobsExpression(lockedRef, attributes),
+          ]);
+
+          const jobs = parseEvalJobsOutput(stdout, attributes);
+          if (exitCode !== 0 && jobs.size === 0) {
+            return yield* Effect.fail(
+              new NixEvalError({
+                flakeRef,
+                message: stderr || "nix-eval-jobs failed with no error message",
+              }),
+            );
+          }
+          return jobs;
+        }),
+
+      // Count what realising a derivation would build and fetch, without doing either
+      dryRunBuild: (drvPath: string): Effect.Effect<RebuildEstimate, NixBuildError> =>
+        Effect.gen(function* () {
+          const { exitCode, stderr } = yield* execNix([
+            "build",
+            "--dry-run",
+            "--no-link",
+            `${drvPath}^*`,
+          ]);
+
+          if (exitCode !== 0) {
+            return yield* Effect.fail(
+              new NixBuildError({
+                flakeRef: drvPath,
+                message: stderr || "unknown error",
+              }),
+            );
+          }
+
+          return parseDryRunOutput(stderr);
+        }),
+
       // Security: inputsFromPath must reference the base branch worktree, not the PR branch.
       // Using the PR branch's flake.lock would allow attackers to inject a malicious nixpkgs
-      // fork that replaces dix with arbitrary code, which would then execute in the CI environment
-      // with access to GITHUB_TOKEN and other secrets.
-      getDixDiff: (
+      // fork that replaces the diff tool with arbitrary code, which would then execute in the CI
+      // environment with access to GITHUB_TOKEN and other secrets.
+      getDiff: (
+        backend: DiffBackend,
         basePath: string,
         prPath: string,
         inputsFromPath: string,
@@ -126,30 +543,24 @@ export class NixService extends Effect.Service<NixService>()("NixService", {
         Effect.gen(function* () {
           // Use path: to avoid git history requirements
           const inputsFromRef = `path:${inputsFromPath}`;
-          const { exitCode, stdout, stderr } = yield* execNix([
-            "run",
-            "nixpkgs#dix",
-            "--inputs-from",
-            inputsFromRef,
-            "--",
-            basePath,
-            prPath,
-          ]);
+          const { exitCode, stdout, stderr } = yield* execNix(
+            diffBackendArgs[backend](basePath, prPath, inputsFromRef),
+          );
 
           if (exitCode !== 0) {
             return yield* Effect.fail(
               new NixDixError({
                 basePath,
                 prPath,
-                message: stderr || "dix failed with no error message",
+                message: stderr || `${backend} failed with no error message`,
               }),
             );
           }
 
           if (stderr) {
-            yield* Effect.logInfo(`dix stderr: ${stderr}`);
+            yield* Effect.logInfo(`${backend} stderr: ${stderr}`);
           }
-          return stdout;
+          return stripAnsi(stdout);
         }),
     };
   }),
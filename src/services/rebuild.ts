@@ -0,0 +1,43 @@
+import type { RebuildEstimate } from "../schemas.js";
+import { formatBytes } from "./markdown.js";
+
+// Parser for the summary nix prints for `nix build --dry-run`. Example (stderr):
+//
+// these 3 derivations will be built:
+//   /nix/store/aaa-hello-2.12.2.drv
+//   …
+// these 12 paths will be fetched (45.67 MiB download, 210.12 MiB unpacked):
+//   /nix/store/bbb-glibc-2.40
+//   …
+//
+// Single items are announced as "this derivation will be built:" and
+// "this path will be fetched (…):".
+
+const buildPattern = /^(?:these (\d+) derivations|this derivation) will be built/m;
+const fetchPattern =
+  /^(?:these (\d+) paths|this path) will be fetched \(([\d.]+) ([KMGT]?i?B) download, ([\d.]+) ([KMGT]?i?B) unpacked\)/m;
+
+const unitFactors: Record<string, number> = {
+  B: 1,
+  KiB: 1024,
+  MiB: 1024 ** 2,
+  GiB: 1024 ** 3,
+  TiB: 1024 ** 4,
+};
+
+const toBytes = (value: string, unit: string): number =>
+  Math.round(Number(value) * (unitFactors[unit] ?? 1));
+
+export const parseDryRunOutput = (output: string): RebuildEstimate => {
+  const built = output.match(buildPattern);
+  const fetched = output.match(fetchPattern);
+  return {
+    build: built ? Number(built[1] ?? 1) : 0,
+    fetch: fetched ? Number(fetched[1] ?? 1) : 0,
+    downloadBytes: fetched ? toBytes(fetched[2], fetched[3]) : 0,
+    unpackedBytes: fetched ? toBytes(fetched[4], fetched[5]) : 0,
+  };
+};
+
+export const formatRebuildEstimate = (estimate: RebuildEstimate): string =>
+  `**Rebuild**: ${estimate.build} to build, ${estimate.fetch} to fetch (${formatBytes(estimate.downloadBytes)} download, ${formatBytes(estimate.unpackedBytes)} unpacked)`;
@@ -0,0 +1,139 @@
+// Renderer for comment templates, a subset of Mustache (https://mustache.github.io):
+//
+// {{name}} / {{{name}}} / {{& name}}  value, dotted names reach into objects, {{.}} is the
+//                                     current item. Values are inserted as is: the output
+//                                     is markdown, so there is no HTML escaping.
+// {{#name}}...{{/name}}               repeated for each item of a list, rendered once with
+//                                     the object as context, or once if the value is truthy
+// {{^name}}...{{/name}}               rendered if the value is missing, false or empty
+// {{! comment}}                       ignored
+//
+// Section and comment tags on a line of their own do not leave an empty line behind.
+
+export type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "variable"; name: string }
+  | { type: "section"; name: string; inverted: boolean; children: TemplateNode[] };
+
+const tagPattern = /\{\{\{\s*([^}]*?)\s*\}\}\}|\{\{\s*([#^/!&]?)\s*([^}]*?)\s*\}\}/g;
+
+const standaloneSigils = new Set(["#", "^", "/", "!"]);
+
+// Throws on unbalanced sections
+export const parseTemplate = (template: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const stack: { name: string; children: TemplateNode[] }[] = [{ name: "", children: root }];
+  let position = 0;
+
+  for (const match of template.matchAll(tagPattern)) {
+    const [tag, tripleName, sigil = "", tagName = ""] = match;
+    let start = match.index;
+    let end = start + tag.length;
+
+    if (standaloneSigils.has(sigil)) {
+      const lineStart = template.lastIndexOf("\n", start - 1) + 1;
+      const newline = template.indexOf("\n", end);
+      const lineEnd = newline === -1 ? template.length : newline + 1;
+      if (
+        lineStart >= position &&
+        template.slice(lineStart, start).trim() === "" &&
+        template.slice(end, lineEnd).trim() === ""
+      ) {
+        start = lineStart;
+        end = lineEnd;
+      }
+    }
+
+    const current = stack[stack.length - 1];
+    if (start > position) {
+      current.children.push({ type: "text", text: template.slice(position, start) });
+    }
+    position = end;
+
+    if (tripleName !== undefined) {
+      current.children.push({ type: "variable", name: tripleName });
+      continue;
+    }
+    switch (sigil) {
+      case "#":
+      case "^": {
+        const section: TemplateNode = {
+          type: "section",
+          name: tagName,
+          inverted: sigil === "^",
+          children: [],
+        };
+        current.children.push(section);
+        stack.push({ name: tagName, children: section.children });
+        break;
+      }
+      case "/":
+        if (stack.length === 1 || current.name !== tagName) {
+          throw new Error(`unexpected {{/${tagName}}}`);
+        }
+        stack.pop();
+        break;
+      case "!":
+        break;
+      default:
+        current.children.push({ type: "variable", name: tagName });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`unclosed section {{#${stack[stack.length - 1].name}}}`);
+  }
+  if (position < template.length) {
+    root.push({ type: "text", text: template.slice(position) });
+  }
+  return root;
+};
+
+// Resolve a name against the innermost context that has its first component
+const lookup = (contexts: readonly unknown[], name: string): unknown => {
+  if (name === ".") return contexts[contexts.length - 1];
+  const [head, ...rest] = name.split(".");
+  for (let i = contexts.length - 1; i >= 0; i--) {
+    const context = contexts[i];
+    if (context !== null && typeof context === "object" && head in context) {
+      return rest.reduce<unknown>(
+        (value, key) =>
+          value !== null && typeof value === "object"
+            ? (value as Record<string, unknown>)[key]
+            : undefined,
+        (context as Record<string, unknown>)[head],
+      );
+    }
+  }
+  return undefined;
+};
+
+const renderNodes = (nodes: readonly TemplateNode[], contexts: readonly unknown[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.text;
+        case "variable": {
+          const value = lookup(contexts, node.name);
+          return value === undefined || value === null ? "" : String(value);
+        }
+        case "section": {
+          const value = lookup(contexts, node.name);
+          const empty = !value || (Array.isArray(value) && value.length === 0);
+          if (node.inverted) return empty ? renderNodes(node.children, contexts) : "";
+          if (empty) return "";
+          if (Array.isArray(value)) {
+            return value.map((item) => renderNodes(node.children, [...contexts, item])).join("");
+          }
+          return renderNodes(
+            node.children,
+            typeof value === "object" ? [...contexts, value] : contexts,
+          );
+        }
+      }
+    })
+    .join("");
+
+export const renderTemplate = (template: readonly TemplateNode[], view: object): string =>
+  renderNodes(template, [view]);
@@ -7,73 +7,132 @@
 
 // Nix utilities
 
-// Detect if dix output indicates actual changes by comparing paths
-// Nix store paths are content-addressed: same paths = same content
-export const hasDixChanges = (diff: string | undefined): boolean => {
-  if (!diff || diff.trim() === "") return false;
-
-  // Extract paths from dix output format:
-  // <<< /nix/store/xxx-name.drv
-  // >>> /nix/store/yyy-name.drv
-  const baseMatch = diff.match(/^<<<\s*(.+)$/m);
-  const prMatch = diff.match(/^>>>\s*(.+)$/m);
-
-  if (!baseMatch || !prMatch) return true; // Cannot parse, assume changes
-
-  return baseMatch[1].trim() !== prMatch[1].trim();
+// Built from a string so the pattern holds no control character literal
+const ansiEscapeRegex = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, "g");
+
+export const stripAnsi = (text: string): string => text.replace(ansiEscapeRegex, "");
+
+// Strip ANSI colors and shorten long Nix error traces to the first line and the tail,
+// where the actual error message is
+export const trimNixError = (message: string, maxLines = 25): string => {
+  const lines = stripAnsi(message).trimEnd().split(/\r?\n/);
+  if (lines.length <= maxLines) return lines.join("\n");
+  const tail = lines.slice(-(maxLines - 2));
+  return [lines[0], `… (${lines.length - tail.length - 1} lines omitted)`, ...tail].join("\n");
 };
 
-// Detect if dix output includes any package section content
-export const hasPackageChanges = (diff: string | undefined): boolean => {
-  if (!diff || diff.trim() === "") return false;
-
-  const lines = diff.split(/\r?\n/);
-
-  return lines.length > 5;
+// Attribute utilities
+
+const nixIdentifierRegex = /^[a-zA-Z_][a-zA-Z0-9_'-]*$/;
+
+// Quote attribute names that are not plain Nix identifiers (e.g. hosts with dots in their name)
+export const quoteAttributeName = (name: string): string =>
+  nixIdentifierRegex.test(name) ? name : `"${name.replace(/["\\$]/g, "\\$&")}"`;
+
+// Split a nix-args input into arguments like a shell would: on whitespace,
+// keeping single- or double-quoted values together
+export const splitNixArgs = (input: string): string[] => {
+  const args: string[] = [];
+  let current: string | undefined;
+  let quote: string | undefined;
+  for (const char of input) {
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current ??= "";
+    } else if (/\s/.test(char)) {
+      if (current !== undefined) {
+        args.push(current);
+        current = undefined;
+      }
+    } else {
+      current = (current ?? "") + char;
+    }
+  }
+  if (quote) {
+    throw new Error(`unterminated ${quote} quote`);
+  }
+  if (current !== undefined) {
+    args.push(current);
+  }
+  return args;
 };
 
-// WARNING: Shamefully vibecoded
-export const isOnlyMinorNixpkgsUpdate = (diff: string | undefined): boolean => {
-  if (!diff || diff.trim() === "") return false;
+// Replace $1, $2, ... in a displayName template with the names matched by wildcard segments
+export const expandDisplayName = (template: string, captures: readonly string[]): string =>
+  template.replace(
+    /\$([1-9])/g,
+    (placeholder, index: string) => captures[Number(index) - 1] ?? placeholder,
+  );
 
-  const lines = diff.split(/\r?\n/);
-  if (lines.length !== 8) return false;
+// Split an attribute path into segments, keeping quoted segments ("my.host") intact
+export const splitAttributePath = (attribute: string): string[] =>
+  attribute.match(/"(?:[^"\\]|\\.)*"|[^.]+/g) ?? [];
 
-  for (const line of lines) {
-    const match = line.match(/^\[([A-Z.]+)\]\s+(\S+)\s+(.+?)\s+->\s+(.+)$/);
-    if (!match) continue;
+// Store path utilities
 
-    const status = match[1];
-    if (status !== "U.") continue;
+export type StorePathName = {
+  name: string;
+  version: string;
+};
 
-    const packageName = match[2];
-    if (!packageName.startsWith("nixos-system-") && packageName !== "darwin-system") {
-      continue;
-    }
+// Split a store path into package name and version following builtins.parseDrvName:
+// the version starts at the first dash that is not followed by a letter
+export const parseStorePathName = (storePath: string): StorePathName => {
+  const baseName = storePath
+    .replace(/^.*\//, "")
+    .replace(/^[0-9a-z]{32}-/, "")
+    .replace(/\.drv$/, "");
+  const match = baseName.match(/-(?![a-zA-Z])/);
+  return match?.index === undefined
+    ? { name: baseName, version: "" }
+    : { name: baseName.slice(0, match.index), version: baseName.slice(match.index + 1) };
+};
 
-    const beforeVersion = match[3].trim();
-    const afterVersion = match[4].trim();
+// Format a closure as a dix-style package listing for attributes that only exist on one side
+export const formatPackageList = (
+  rootPath: string,
+  closurePaths: readonly string[],
+  change: "added" | "removed",
+): string => {
+  const isDerivation = rootPath.endsWith(".drv");
+  const versions = new Map<string, Set<string>>();
+  for (const path of closurePaths) {
+    // Derivation closures also contain sources and patches, which dix does not list either
+    if (isDerivation && !path.endsWith(".drv")) continue;
+    const { name, version } = parseStorePathName(path);
+    const entry = versions.get(name) ?? new Set<string>();
+    if (version) entry.add(version);
+    versions.set(name, entry);
+  }
 
-    const extractMajorMinor = (version: string): string | null => {
-      const versionMatch = version.match(/^(\d+\.\d+)\..+\.drv$/);
-      return versionMatch ? versionMatch[1] : null;
-    };
+  const names = [...versions.keys()].sort((a, b) => a.localeCompare(b));
+  const width = Math.max(0, ...names.map((n) => n.length));
+  const status = change === "added" ? "[A.]" : "[R.]";
+  const lines = names.map((name) => {
+    const entryVersions = [...(versions.get(name) ?? [])].sort();
+    const versionText = entryVersions.length > 0 ? entryVersions.join(", ") : "<none>";
+    return `${status} ${name.padEnd(width)} ${versionText}`;
+  });
 
-    const beforeMajorMinor = extractMajorMinor(beforeVersion);
-    const afterMajorMinor = extractMajorMinor(afterVersion);
+  const header = change === "added" ? `>>> ${rootPath}` : `<<< ${rootPath}`;
+  return `${header}
 
-    if (
-      beforeMajorMinor !== null &&
-      afterMajorMinor !== null &&
-      beforeMajorMinor === afterMajorMinor
-    ) {
-      return true;
-    }
-  }
-
-  return false;
+${change === "added" ? "ADDED" : "REMOVED"}
+${lines.join("\n")}`;
 };
 
+// dix utilities
+export { parseDixReport, formatDixReport, formatDixEntry, truncateDixReport } from "./dix.js";
+
+// Filter utilities
+export { applyChangeFilters, isFailedResult, type HiddenChange } from "./filter.js";
+
 // Git utilities
 export { sanitizeBranchName } from "./git.js";
 
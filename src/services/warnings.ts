@@ -0,0 +1,70 @@
+import type { EvalWarnings } from "../schemas.js";
+import { stripAnsi } from "./utils.js";
+
+// Lines nix prints on stderr for `builtins.warn`, `lib.warn` and `builtins.trace`.
+// Nix 2.24 and later prefix builtins.warn with "evaluation warning:".
+const warningPattern = /^(?:evaluation warning|warning|trace): /;
+
+// Warnings about the invocation rather than the evaluated code. They differ between
+// the base worktree and the PR checkout for reasons unrelated to the change.
+const ignoredWarnings = [
+  /^warning: Git tree '.*' (?:is dirty|has uncommitted changes)/,
+  /^warning: ignoring untrusted substituter/,
+  /^warning: unknown (?:experimental )?setting/,
+  /^warning: download buffer is full/,
+];
+
+// Store paths differ between base and PR as soon as any source changes, so only
+// the name is kept
+export const normalizeWarning = (line: string): string =>
+  line.replace(/\/nix\/store\/[0-9a-z]{32}-/g, "/nix/store/…-").trimEnd();
+
+// Nix's own progress and error lines, which end a multi-line warning
+const logLinePattern =
+  /^(?:error|building|copying|fetching|downloading|unpacking|querying|evaluating|waiting|these \d+|this (?:derivation|path))\b/;
+
+// Messages passed to warn or trace can span several lines; the lines up to the next
+// message, Nix log line or blank line belong to the warning
+export const extractWarnings = (stderr: string): readonly string[] => {
+  const warnings: string[][] = [];
+  let current: string[] | undefined;
+  for (const line of stripAnsi(stderr).split("\n")) {
+    if (warningPattern.test(line)) {
+      current = [line];
+      warnings.push(current);
+    } else if (current && line.trim() !== "" && !logLinePattern.test(line)) {
+      current.push(line);
+    } else {
+      current = undefined;
+    }
+  }
+  return warnings
+    .filter(([first]) => !ignoredWarnings.some((pattern) => pattern.test(first)))
+    .map((lines) => normalizeWarning(lines.map((line) => line.trimEnd()).join("\n")));
+};
+
+export const diffWarnings = (base: readonly string[], pr: readonly string[]): EvalWarnings => {
+  const baseSet = new Set(base);
+  const prSet = new Set(pr);
+  return {
+    introduced: [...prSet].filter((line) => !baseSet.has(line)),
+    resolved: [...baseSet].filter((line) => !prSet.has(line)),
+  };
+};
+
+// Warnings as a diff block: introduced lines are added, resolved lines removed
+export const formatEvalWarnings = (warnings: EvalWarnings): string => {
+  if (warnings.introduced.length === 0 && warnings.resolved.length === 0) return "";
+
+  const prefixed = (prefix: string) => (warning: string) =>
+    warning.split("\n").map((line) => `${prefix} ${line}`);
+  const lines = [
+    ...warnings.introduced.flatMap(prefixed("+")),
+    ...warnings.resolved.flatMap(prefixed("-")),
+  ];
+  return `**Evaluation warnings**: ${warnings.introduced.length} introduced, ${warnings.resolved.length} resolved
+
+\`\`\`diff
+${lines.join("\n")}
+\`\`\``;
+};
@@ -0,0 +1,70 @@
+import type { DependencyChain } from "../schemas.js";
+import { sanitizeDisplayName } from "./markdown.js";
+import { parseStorePathName, stripAnsi } from "./utils.js";
+
+const storePathPattern = /\/nix\/store\/[0-9a-z]{32}-[^\s:"']+/;
+
+// Parser for `nix why-depends`, which prints the shortest chain as a tree. Example:
+//
+// /nix/store/aaa-nixos-system-host
+// └───/nix/store/bbb-etc
+//     └───/nix/store/ccc-python3-3.12.8
+//
+// Returns the store paths from the root down to the dependency.
+export const parseWhyDependsOutput = (output: string): readonly string[] =>
+  stripAnsi(output)
+    .split("\n")
+    .flatMap((line) => {
+      const match = line.match(storePathPattern);
+      return match ? [match[0]] : [];
+    });
+
+// One store path of the PR closure for each added package name, to explain with
+// why-depends. Paths are sorted so the choice among split outputs is stable, and
+// names without a path in the closure are left out.
+export const findAddedPackagePaths = (
+  names: readonly string[],
+  prClosure: readonly string[],
+): readonly { name: string; path: string }[] => {
+  const paths = new Map<string, string>();
+  for (const path of [...prClosure].sort()) {
+    const { name } = parseStorePathName(path);
+    if (!paths.has(name)) {
+      paths.set(name, path);
+    }
+  }
+  return [...new Set(names)].flatMap((name) => {
+    const path = paths.get(name);
+    return path === undefined ? [] : [{ name, path }];
+  });
+};
+
+const storePathLabel = (path: string): string =>
+  path.replace(/^.*\//, "").replace(/^[0-9a-z]{32}-/, "");
+
+// One collapsible block per added package with its dependency chain drawn as a tree,
+// followed by a note on the added packages that were not queried
+export const formatDependencyChains = (chains: readonly DependencyChain[], omitted = 0): string => {
+  const blocks = chains.map((chain) => {
+    const tree = chain.chain
+      .map((path, depth) =>
+        depth === 0
+          ? storePathLabel(path)
+          : `${"    ".repeat(depth - 1)}└── ${storePathLabel(path)}`,
+      )
+      .join("\n");
+    return `<details>
+<summary>Why is ${sanitizeDisplayName(chain.name)} added?</summary>
+
+\`\`\`
+${tree}
+\`\`\`
+</details>`;
+  });
+  const note =
+    omitted > 0
+      ? `${omitted} more added package${omitted === 1 ? " was" : "s were"} not explained`
+      : "";
+  // The blank line ends the HTML block so the note renders as text
+  return [blocks.join("\n"), note].filter((part) => part !== "").join("\n\n");
+};
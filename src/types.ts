@@ -1,4 +1,5 @@
 import * as github from "@actions/github";
+import type { ChangeFilterRule } from "./schemas.js";
 
 export type GitHubContext = typeof github.context;
 export type Octokit = ReturnType<typeof github.getOctokit>;
@@ -9,13 +10,60 @@ export type PullRequestPayload = {
   head: { ref: string; sha: string };
 };
 
+export type PushPayload = {
+  base: { ref: string; sha: string };
+  head: { ref: string; sha: string };
+};
+
+export type MergeGroupPayload = {
+  base: { ref: string; sha: string };
+  head: { ref: string; sha: string };
+};
+
+// The two commits being compared, tagged with the event that produced them
+export type DiffTarget =
+  | ({ event: "pull_request" } & PullRequestPayload)
+  | ({ event: "push" } & PushPayload)
+  | ({ event: "merge_group" } & MergeGroupPayload);
+
 export type CommentStrategy = "create" | "update";
 
+export type OutputTarget = "comment" | "job-summary" | "both" | "none";
+
+export type BaseStrategy = "tip" | "base-sha" | "merge-base";
+
+// How dix output is shown: the raw text in a code block, or tables built from the parsed report
+export type CommentFormat = "text" | "table";
+
 export type CommentOptions = {
   skipNoChange: boolean;
   commentStrategy: CommentStrategy;
+  filters: readonly ChangeFilterRule[];
+};
+
+export type Evaluator = "nix" | "nix-eval-jobs";
+
+// Outcome of one attribute in a nix-eval-jobs batch evaluation
+export type EvalJob =
+  | { drvPath: string; outputs: Readonly<Record<string, string>> }
+  | { error: string };
+
+// Optional per-attribute analyses beyond the diff itself
+export type AnalysisOptions = {
+  // Dry-run the PR output to count rebuilds and downloads (drv mode only)
+  rebuildEstimate?: boolean;
+  // Number of packages listed per kind of closure size change (build mode only, 0 disables)
+  sizeBreakdown?: number;
+  // Explain each package added to the closure with nix why-depends (build mode only)
+  whyDepends?: boolean;
+  // Report packages the PR closure has in more versions than the base closure
+  duplicateVersions?: boolean;
+  // Diff the warnings and traces printed while evaluating base and PR
+  evalWarnings?: boolean;
 };
 
 export type WorktreeInfo = {
   path: string;
+  // Commit the worktree was created at
+  sha: string;
 };